@@ -0,0 +1,180 @@
+/**
+ * Authentication and Authorization
+ *
+ * Every call except the Database Webhook (see webhook.ts) and the opt-in
+ * health route must identify its caller, either with
+ *   - a Supabase JWT in `Authorization: Bearer <token>`, verified as HS256
+ *     against the `JWT_SECRET` environment variable, or
+ *   - the shared secret from the `ADMIN_SECRET` environment variable in the
+ *     `x-admin-secret` header, for server-to-server calls such as cron jobs.
+ *
+ * A JWT with `role: service_role`, or with `app_metadata.role: admin`, acts as
+ * an admin, as does the admin secret. Any other valid JWT is a player, whose
+ * user ID (`sub`) is their profile ID. Players may only rate matches they
+ * played in; rewriting ratings outside the normal match flow is admin-only.
+ */
+
+import { ForbiddenError, UnauthorizedError } from './errors.ts'
+
+export const ADMIN_SECRET_HEADER = 'x-admin-secret';
+
+/** The `app_metadata.role` that makes a user an admin. Only the service role can set app_metadata. */
+export const ADMIN_APP_ROLE = 'admin';
+
+/**
+ * Who is calling. `service` is a trusted trigger, i.e. the Database Webhook:
+ * it may rate any match but not perform admin actions.
+ */
+export type CallerRole = 'player' | 'service' | 'admin';
+
+export interface Caller {
+    role: CallerRole;
+    userId: string | null; // The JWT's `sub`; null for secret-based callers
+    via: 'jwt' | 'admin_secret' | 'webhook_secret';
+}
+
+/** The caller of a webhook call whose secret has been checked. */
+export const WEBHOOK_CALLER: Readonly<Caller> = Object.freeze({ role: 'service', userId: null, via: 'webhook_secret' });
+
+/** The claims the function reads from a Supabase JWT. */
+export interface JwtClaims {
+    sub?: string;
+    role?: string;  // Postgres role: 'authenticated', 'anon' or 'service_role'
+    exp?: number;   // Seconds since the epoch
+    nbf?: number;
+    app_metadata?: { role?: string };
+    [claim: string]: unknown;
+}
+
+/** Compares two strings in time independent of where they first differ. */
+export function timingSafeEqual(a: string, b: string): boolean {
+    const bytesA = new TextEncoder().encode(a);
+    const bytesB = new TextEncoder().encode(b);
+    const length = Math.max(bytesA.length, bytesB.length);
+    let diff = bytesA.length ^ bytesB.length;
+    for (let i = 0; i < length; i++) {
+        diff |= (bytesA[i] ?? 0) ^ (bytesB[i] ?? 0);
+    }
+    return diff === 0;
+}
+
+/**
+ * Throws unless the request carries the configured admin secret.
+ * A missing `ADMIN_SECRET` rejects every admin call rather than accepting them.
+ */
+export function verifyAdminSecret(req: Request): void {
+    const secret = Deno.env.get('ADMIN_SECRET');
+    if (!secret) {
+        throw new UnauthorizedError('Unauthorized: ADMIN_SECRET is not configured, admin calls are rejected.');
+    }
+    const provided = req.headers.get(ADMIN_SECRET_HEADER) ?? '';
+    if (!timingSafeEqual(provided, secret)) {
+        throw new UnauthorizedError(`Unauthorized: missing or invalid ${ADMIN_SECRET_HEADER} header.`);
+    }
+}
+
+function base64UrlDecode(text: string): ArrayBuffer {
+    const base64 = text.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(text.length / 4) * 4, '=');
+    return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0)).buffer;
+}
+
+function decodeJson(segment: string): Record<string, unknown> {
+    const value = JSON.parse(new TextDecoder().decode(base64UrlDecode(segment)));
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error('not a JSON object');
+    return value;
+}
+
+/**
+ * Verifies an HS256 JWT and returns its claims. Throws if it is malformed,
+ * signed with another algorithm or key, has no `exp`, has expired or is not
+ * valid yet.
+ */
+export async function verifyJwt(token: string, secret: string, now: number = Date.now()): Promise<JwtClaims> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+        throw new UnauthorizedError('Unauthorized: malformed bearer token.');
+    }
+
+    let header: Record<string, unknown>;
+    let claims: JwtClaims;
+    let signature: ArrayBuffer;
+    try {
+        header = decodeJson(parts[0]);
+        claims = decodeJson(parts[1]) as JwtClaims;
+        signature = base64UrlDecode(parts[2]);
+    } catch {
+        throw new UnauthorizedError('Unauthorized: malformed bearer token.');
+    }
+    // Only the algorithm Supabase signs with is accepted, so an 'alg: none' token is never trusted
+    if (header.alg !== 'HS256') {
+        throw new UnauthorizedError(`Unauthorized: unsupported token algorithm ${String(header.alg)}.`);
+    }
+
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
+    const valid = await crypto.subtle.verify('HMAC', key, signature, encoder.encode(`${parts[0]}.${parts[1]}`));
+    if (!valid) {
+        throw new UnauthorizedError('Unauthorized: invalid token signature.');
+    }
+
+    if (typeof claims.exp !== 'number') {
+        throw new UnauthorizedError('Unauthorized: token has no expiry.');
+    }
+    if (claims.exp * 1000 <= now) {
+        throw new UnauthorizedError('Unauthorized: token has expired.');
+    }
+    if (typeof claims.nbf === 'number' && claims.nbf * 1000 > now) {
+        throw new UnauthorizedError('Unauthorized: token is not valid yet.');
+    }
+    return claims;
+}
+
+/** The caller a verified JWT stands for. */
+export function callerFromClaims(claims: JwtClaims): Caller {
+    const isAdmin = claims.role === 'service_role' || claims.app_metadata?.role === ADMIN_APP_ROLE;
+    return {
+        role: isAdmin ? 'admin' : 'player',
+        userId: typeof claims.sub === 'string' && claims.sub ? claims.sub : null,
+        via: 'jwt',
+    };
+}
+
+/**
+ * Identifies the caller of a non-webhook request. The admin secret is checked
+ * when its header is present; otherwise a bearer JWT is required. A missing
+ * `JWT_SECRET` rejects every JWT rather than accepting them.
+ */
+export async function authenticate(req: Request): Promise<Caller> {
+    if (req.headers.has(ADMIN_SECRET_HEADER)) {
+        verifyAdminSecret(req);
+        return { role: 'admin', userId: null, via: 'admin_secret' };
+    }
+
+    const bearer = /^Bearer\s+(\S+)$/i.exec(req.headers.get('Authorization') ?? '');
+    if (!bearer) {
+        throw new UnauthorizedError(`Unauthorized: send a bearer token or the ${ADMIN_SECRET_HEADER} header.`);
+    }
+    const secret = Deno.env.get('JWT_SECRET');
+    if (!secret) {
+        throw new UnauthorizedError('Unauthorized: JWT_SECRET is not configured, bearer tokens are rejected.');
+    }
+    return callerFromClaims(await verifyJwt(bearer[1], secret));
+}
+
+/** Throws unless the caller is an admin. */
+export function requireAdmin(caller: Caller, action: string): void {
+    if (caller.role !== 'admin') {
+        throw new ForbiddenError(`Forbidden: ${action} is restricted to admins.`, { action });
+    }
+}
+
+/**
+ * Throws unless the caller may rate a match between `playerIds`: admins and
+ * the webhook may rate any match, a player only one they played in.
+ */
+export function assertCanRateMatch(caller: Caller, matchId: string, playerIds: string[]): void {
+    if (caller.role !== 'player') return;
+    if (!caller.userId || !playerIds.includes(caller.userId)) {
+        throw new ForbiddenError(`Forbidden: only the players of match ${matchId} can have it rated.`, { matchId });
+    }
+}
@@ -0,0 +1,182 @@
+/**
+ * Batch Rating
+ *
+ * Rates many confirmed matches in chronological order. Each player's updated
+ * rating is carried forward in memory so the outcome is identical to rating
+ * the matches one by one, without concurrent calls racing on `profiles`.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.8'
+import {
+    MatchData,
+    ProfileData,
+    MATCH_COLUMNS,
+    PROFILE_COLUMNS,
+    hasRequiredScoreData,
+    assertKnownEventCategory,
+    assertValidPlayers,
+    matchPlayerIds,
+    lookupMatchProfiles,
+    compareMatchTime,
+    fetchAllRows,
+    rateMatch
+} from './processing.ts'
+import { createConfigResolver } from './config.ts'
+import { assertValidScore } from './validation.ts'
+import { Logger, rootLogger } from './logger.ts'
+import { ErrorCode, ProfileMissingError, errorCode } from './errors.ts'
+
+/** Request body for the batch route: either explicit IDs or a cut-off time. */
+export interface BatchRequest {
+    matchIds?: string[];
+    upTo?: string; // ISO timestamp: all confirmed, unrated matches created at or before this time
+}
+
+export type BatchOutcome = 'rated' | 'skipped' | 'failed';
+
+export interface BatchMatchResult {
+    matchId: string;
+    outcome: BatchOutcome;
+    reason?: string;
+    code?: ErrorCode; // Why the match was skipped or failed, e.g. 'already_rated'
+}
+
+export interface BatchResponse {
+    success: boolean;
+    summary: Record<BatchOutcome, number>;
+    results: BatchMatchResult[];
+}
+
+/**
+ * Validates the batch body. Returns an error message, or null if valid.
+ */
+export function validateBatchRequest(body: BatchRequest): string | null {
+    const hasIds = Array.isArray(body.matchIds);
+    const hasUpTo = typeof body.upTo === 'string';
+
+    if (hasIds === hasUpTo) {
+        return 'Batch request must include exactly one of matchIds or upTo';
+    }
+    if (hasIds && (body.matchIds!.length === 0 || body.matchIds!.some((id) => typeof id !== 'string' || !id))) {
+        return 'matchIds must be a non-empty array of match IDs';
+    }
+    if (hasUpTo && isNaN(Date.parse(body.upTo!))) {
+        return `upTo is not a valid timestamp: ${body.upTo}`;
+    }
+    return null;
+}
+
+async function fetchBatchMatches(
+    supabaseAdmin: SupabaseClient,
+    body: BatchRequest
+): Promise<MatchData[]> {
+    return await fetchAllRows('Match fetch', (from, to) => {
+        let query = supabaseAdmin.from('matches').select(MATCH_COLUMNS);
+        if (body.matchIds) {
+            query = query.in('id', body.matchIds);
+        } else {
+            query = query
+                .eq('status', 'confirmed')
+                .is('rating_updated_at', null)
+                .lte('created_at', body.upTo!);
+        }
+        return query
+            .order('id', { ascending: true })
+            .range(from, to)
+            .returns<MatchData[]>();
+    });
+}
+
+/**
+ * Rates every match selected by the request in chronological order.
+ * A failure on one match is recorded and does not stop the rest of the batch.
+ */
+export async function processBatch(
+    supabaseAdmin: SupabaseClient,
+    body: BatchRequest,
+    log: Logger = rootLogger
+): Promise<BatchResponse> {
+    const results: BatchMatchResult[] = [];
+    const resolveConfig = createConfigResolver(supabaseAdmin);
+
+    // --- 1. Fetch Matches and sort by match time ---
+    const matches = await fetchBatchMatches(supabaseAdmin, body);
+    matches.sort(compareMatchTime);
+
+    if (body.matchIds) {
+        const foundIds = new Set(matches.map((m) => m.id));
+        for (const id of new Set(body.matchIds)) {
+            if (!foundIds.has(id)) {
+                results.push({ matchId: id, outcome: 'failed', reason: `Match with ID ${id} not found.`, code: 'match_not_found' });
+            }
+        }
+    }
+
+    // --- 2. Fetch all involved profiles once ---
+    const playerIds = [...new Set(matches.flatMap(matchPlayerIds).filter((id) => !!id))];
+    const profiles = new Map<string, ProfileData>();
+    if (playerIds.length > 0) {
+        const profilesData = await fetchAllRows('Profile fetch', (from, to) => supabaseAdmin
+            .from('profiles')
+            .select(PROFILE_COLUMNS)
+            .in('id', playerIds)
+            .order('id', { ascending: true })
+            .range(from, to)
+            .returns<ProfileData[]>());
+        for (const profile of profilesData) {
+            profiles.set(profile.id, profile);
+        }
+    }
+
+    // --- 3. Rate sequentially, carrying ratings forward in memory ---
+    for (const match of matches) {
+        if (match.status !== 'confirmed') {
+            results.push({ matchId: match.id, outcome: 'skipped', reason: `Match status is '${match.status}', expected 'confirmed'.`, code: 'match_not_confirmed' });
+            continue;
+        }
+        if (match.rating_updated_at) {
+            results.push({ matchId: match.id, outcome: 'skipped', reason: `Match already rated at ${match.rating_updated_at}.`, code: 'already_rated' });
+            continue;
+        }
+        if (!hasRequiredScoreData(match)) {
+            results.push({ matchId: match.id, outcome: 'failed', reason: `Match ${match.id} is missing required score data (winner_id, sets).`, code: 'invalid_match' });
+            continue;
+        }
+
+        try {
+            assertValidPlayers(match);
+            const matchProfiles = lookupMatchProfiles(match, profiles);
+            if (!matchProfiles) {
+                throw new ProfileMissingError(matchPlayerIds(match));
+            }
+            const config = await resolveConfig({ leagueId: match.league_id, seasonId: match.season_id });
+            assertKnownEventCategory(match, config);
+            assertValidScore(match, config);
+            const rated = await rateMatch(supabaseAdmin, match, config, {
+                profiles: matchProfiles,
+                log: log.child({ matchId: match.id, playerIds: matchPlayerIds(match) }),
+            });
+            if (!rated.update) {
+                results.push({ matchId: match.id, outcome: 'skipped', reason: 'Match already rated by a concurrent request.', code: 'already_rated' });
+                continue;
+            }
+            // Only carry the new ratings forward once they are committed
+            for (const profile of rated.update.profiles_new) {
+                profiles.set(profile.id, profile);
+            }
+            results.push({ matchId: match.id, outcome: 'rated' });
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : 'An unexpected error occurred.';
+            const code = errorCode(error);
+            log.warn('Batch match failed', { matchId: match.id, code, reason });
+            results.push({ matchId: match.id, outcome: 'failed', reason, code });
+        }
+    }
+
+    const summary: Record<BatchOutcome, number> = { rated: 0, skipped: 0, failed: 0 };
+    for (const result of results) {
+        summary[result.outcome]++;
+    }
+
+    return { success: summary.failed === 0, summary, results };
+}
@@ -0,0 +1,415 @@
+/**
+ * Replay and Calibration Harness
+ *
+ * Offline tool for tuning the rating parameters against past results. Replays
+ * a file of historical singles matches from default ratings through
+ * `calculateGlickoTRUpdate` and scores the prediction made before each match:
+ * log-loss and Brier score of the expected score against the actual winner,
+ * calibration buckets, and the error of the expected game share.
+ *
+ * Usage:
+ *   deno run --allow-read calibrate.ts matches.csv [--grid grid.json] [--warmup 5] [--json]
+ *
+ * Input rows (CSV with a header, or a JSON array of objects):
+ *   id, played_at, player1_id, player2_id, p1_games, p2_games,
+ *   winner_id (optional), status, event_category, is_public_event,
+ *   p1_sets and p2_sets (optional, for the set_share score model)
+ *
+ * A grid is a JSON object of parameter name to candidate values, e.g.
+ *   { "tau": [0.3, 0.5], "categories.tiebreak_event.baseWeight": [0.4, 0.6] }
+ * Every combination is replayed and compared in one table.
+ */
+
+import {
+    PlayerRating,
+    GlickoTRConfig,
+    DEFAULT_CONFIG,
+    applyInactivityDecay,
+    calculateExpectedScore,
+    calculateGlickoTRUpdate,
+    createDefaultRating,
+    elapsedRatingPeriods,
+    getEventCategory
+} from './glicko.ts'
+import { parseRatingConfig } from './config.ts'
+import { modelScore } from './scoring.ts'
+import { SkippedMatch } from './recompute.ts'
+import { UnknownEventCategoryError, errorCode } from './errors.ts'
+
+// Probabilities are clamped this far from 0 and 1 before taking logs
+const LOG_LOSS_EPSILON = 1e-15;
+const CALIBRATION_BUCKETS = 10;
+
+export interface HistoricalMatch {
+    id: string;
+    played_at: string;
+    player1_id: string;
+    player2_id: string;
+    p1_games: number;
+    p2_games: number;
+    winner_id?: string | null; // Defaults to the player with more games
+    sets?: [number, number] | null; // Sets won by each player, when known
+    status: string;            // 'completed', 'retired' or 'walkover'
+    event_category: string;
+    is_public_event: boolean;
+}
+
+export interface CalibrationBucket {
+    lower: number;
+    upper: number;
+    count: number;
+    meanPredicted: number;
+    observedWinRate: number;
+}
+
+export interface ReplayMetrics {
+    label: string;
+    scoredMatches: number;  // Matches included in the metrics (after warm-up, with weight)
+    unweightedMatches: number;      // Replayed but not scored: no weight (e.g. walkovers) or no games
+    skippedMatches: SkippedMatch[]; // Not replayed at all, with the error code for why
+    logLoss: number;
+    brier: number;
+    gameShareMae: number;   // Mean absolute error of expected vs. actual game share
+    gameShareRmse: number;
+    calibration: CalibrationBucket[];
+}
+
+// --- Input parsing ---
+
+/** Splits CSV text into rows of fields, honouring double-quoted fields. */
+function parseCsvRows(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            if (row.some((f) => f.trim() !== '')) rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    row.push(field);
+    if (row.some((f) => f.trim() !== '')) rows.push(row);
+    return rows;
+}
+
+function toHistoricalMatch(raw: Record<string, unknown>, index: number): HistoricalMatch {
+    const text = (key: string) => raw[key] === undefined || raw[key] === null ? '' : String(raw[key]).trim();
+    const count = (key: string) => {
+        const value = Number(text(key));
+        if (!Number.isFinite(value) || value < 0) {
+            throw new Error(`Row ${index + 1}: ${key} must be a non-negative number, got '${text(key)}'`);
+        }
+        return value;
+    };
+    for (const key of ['played_at', 'player1_id', 'player2_id']) {
+        if (!text(key)) throw new Error(`Row ${index + 1}: missing ${key}`);
+    }
+    if (isNaN(Date.parse(text('played_at')))) {
+        throw new Error(`Row ${index + 1}: played_at must be a timestamp, got '${text('played_at')}'`);
+    }
+
+    return {
+        id: text('id') || `row-${index + 1}`,
+        played_at: text('played_at'),
+        player1_id: text('player1_id'),
+        player2_id: text('player2_id'),
+        p1_games: count('p1_games'),
+        p2_games: count('p2_games'),
+        winner_id: text('winner_id') || null,
+        sets: text('p1_sets') && text('p2_sets') ? [count('p1_sets'), count('p2_sets')] : null,
+        status: text('status') || 'completed',
+        event_category: text('event_category') || 'standard_match',
+        is_public_event: raw.is_public_event === true || text('is_public_event').toLowerCase() === 'true',
+    };
+}
+
+/** Parses historical matches from CSV (with a header row) or a JSON array. */
+export function parseHistoricalMatches(text: string, format: 'csv' | 'json'): HistoricalMatch[] {
+    if (format === 'json') {
+        const parsed = JSON.parse(text);
+        if (!Array.isArray(parsed)) throw new Error('JSON input must be an array of matches');
+        return parsed.map((raw, index) => toHistoricalMatch(raw, index));
+    }
+    const [header, ...rows] = parseCsvRows(text);
+    if (!header) return [];
+    const columns = header.map((c) => c.trim());
+    return rows.map((fields, index) =>
+        toHistoricalMatch(Object.fromEntries(columns.map((c, i) => [c, fields[i]])), index)
+    );
+}
+
+// --- Replay ---
+
+/**
+ * Replays the matches in time order from default ratings and scores the
+ * prediction made before each one. The first `warmup` matches of each player
+ * still update ratings but are left out of the metrics.
+ */
+export function replayMatches(
+    matches: HistoricalMatch[],
+    config: GlickoTRConfig = DEFAULT_CONFIG,
+    options: { warmup?: number, label?: string } = {}
+): ReplayMetrics {
+    const warmup = options.warmup ?? 0;
+    const ratings = new Map<string, { rating: PlayerRating, lastPlayed: Date, played: number }>();
+    const ordered = [...matches].sort((a, b) => Date.parse(a.played_at) - Date.parse(b.played_at) || a.id.localeCompare(b.id));
+
+    const buckets = Array.from({ length: CALIBRATION_BUCKETS }, () => ({ count: 0, predicted: 0, wins: 0 }));
+    let scored = 0;
+    let unweighted = 0;
+    const skipped: SkippedMatch[] = [];
+    let logLossSum = 0;
+    let brierSum = 0;
+    let absErrorSum = 0;
+    let squaredErrorSum = 0;
+
+    const currentRating = (playerId: string, playedAt: Date) => {
+        const state = ratings.get(playerId);
+        if (!state) return { rating: createDefaultRating(config), played: 0 };
+        const periods = elapsedRatingPeriods(state.lastPlayed, playedAt, config);
+        return { rating: applyInactivityDecay(state.rating, periods, config), played: state.played };
+    };
+
+    for (const match of ordered) {
+        const playedAt = new Date(match.played_at);
+        const player1 = currentRating(match.player1_id, playedAt);
+        const player2 = currentRating(match.player2_id, playedAt);
+
+        const won = match.winner_id ? match.winner_id === match.player1_id : match.p1_games > match.p2_games;
+        let update;
+        try {
+            if (!getEventCategory(match.event_category, config)) {
+                throw new UnknownEventCategoryError(match.event_category, Object.keys(config.categories), match.id);
+            }
+            const score = modelScore({
+                side1Won: won,
+                games: [match.p1_games, match.p2_games],
+                sets: match.sets ?? null,
+                points: null,
+            }, match.event_category, config);
+            update = calculateGlickoTRUpdate(
+                player1.rating,
+                player2.rating,
+                match.p1_games,
+                match.p2_games,
+                match.status,
+                match.event_category,
+                match.is_public_event,
+                { config, actualScore: score.score }
+            );
+        } catch (error) {
+            skipped.push({ matchId: match.id, reason: (error as Error).message, code: errorCode(error) });
+            continue;
+        }
+
+        const totalGames = match.p1_games + match.p2_games;
+        const inWarmup = player1.played < warmup || player2.played < warmup;
+        if (update.match_weight > 0 && totalGames > 0 && !inWarmup) {
+            const expected = calculateExpectedScore(player1.rating, player2.rating, config);
+            const outcome = won ? 1 : 0;
+            const p = Math.min(Math.max(expected, LOG_LOSS_EPSILON), 1 - LOG_LOSS_EPSILON);
+            const shareError = expected - match.p1_games / totalGames;
+
+            logLossSum += -(outcome * Math.log(p) + (1 - outcome) * Math.log(1 - p));
+            brierSum += (expected - outcome) ** 2;
+            absErrorSum += Math.abs(shareError);
+            squaredErrorSum += shareError ** 2;
+            scored++;
+
+            const bucket = buckets[Math.min(Math.floor(expected * CALIBRATION_BUCKETS), CALIBRATION_BUCKETS - 1)];
+            bucket.count++;
+            bucket.predicted += expected;
+            bucket.wins += outcome;
+        } else if (update.match_weight <= 0 || totalGames <= 0) {
+            unweighted++;
+        }
+
+        ratings.set(match.player1_id, { rating: update.player_new, lastPlayed: playedAt, played: player1.played + 1 });
+        ratings.set(match.player2_id, { rating: update.opponent_new, lastPlayed: playedAt, played: player2.played + 1 });
+    }
+
+    const mean = (sum: number) => scored > 0 ? sum / scored : NaN;
+    return {
+        label: options.label ?? config.version,
+        scoredMatches: scored,
+        unweightedMatches: unweighted,
+        skippedMatches: skipped,
+        logLoss: mean(logLossSum),
+        brier: mean(brierSum),
+        gameShareMae: mean(absErrorSum),
+        gameShareRmse: Math.sqrt(mean(squaredErrorSum)),
+        calibration: buckets.map((bucket, index) => ({
+            lower: index / CALIBRATION_BUCKETS,
+            upper: (index + 1) / CALIBRATION_BUCKETS,
+            count: bucket.count,
+            meanPredicted: bucket.count > 0 ? bucket.predicted / bucket.count : NaN,
+            observedWinRate: bucket.count > 0 ? bucket.wins / bucket.count : NaN,
+        })),
+    };
+}
+
+// --- Parameter sweeps ---
+
+/** Sets a dotted path such as `categories.tiebreak_event.baseWeight` on a params object. */
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+    const keys = path.split('.');
+    let node = target;
+    for (const key of keys.slice(0, -1)) {
+        if (!node[key] || typeof node[key] !== 'object') node[key] = {};
+        node = node[key] as Record<string, unknown>;
+    }
+    node[keys[keys.length - 1]] = value;
+}
+
+/** Expands a parameter grid into one labelled config per combination. */
+export function expandGrid(grid: Record<string, unknown[]>): { label: string, config: GlickoTRConfig }[] {
+    let combinations: [string, unknown][][] = [[]];
+    for (const [path, values] of Object.entries(grid)) {
+        if (!Array.isArray(values) || values.length === 0) {
+            throw new Error(`Grid parameter ${path} must be a non-empty array of values`);
+        }
+        combinations = combinations.flatMap((combo) => values.map((value) => [...combo, [path, value] as [string, unknown]]));
+    }
+
+    return combinations.map((combo) => {
+        const params: Record<string, unknown> = {};
+        for (const [path, value] of combo) setPath(params, path, value);
+        const label = combo.length > 0 ? combo.map(([path, value]) => `${path}=${value}`).join(' ') : 'default';
+        return { label, config: parseRatingConfig(params, label, 'calibration grid') };
+    });
+}
+
+/**
+ * Orders replay runs best log-loss first. A run that scored nothing has a NaN
+ * log-loss, which would make the comparison inconsistent, so it goes last.
+ */
+export function rankByLogLoss(results: ReplayMetrics[]): ReplayMetrics[] {
+    return [...results].sort((a, b) => {
+        const finiteA = Number.isFinite(a.logLoss);
+        const finiteB = Number.isFinite(b.logLoss);
+        if (finiteA !== finiteB) return finiteA ? -1 : 1;
+        return finiteA ? a.logLoss - b.logLoss : 0;
+    });
+}
+
+/** Replays the matches once per grid combination, best log-loss first. */
+export function sweepGrid(
+    matches: HistoricalMatch[],
+    grid: Record<string, unknown[]>,
+    options: { warmup?: number } = {}
+): ReplayMetrics[] {
+    return rankByLogLoss(expandGrid(grid)
+        .map(({ label, config }) => replayMatches(matches, config, { warmup: options.warmup, label })));
+}
+
+// --- Report formatting ---
+
+const format = (value: number, digits = 4) => Number.isNaN(value) ? '-' : value.toFixed(digits);
+
+/** Markdown table comparing replay runs. */
+export function formatComparisonTable(results: ReplayMetrics[]): string {
+    const lines = [
+        '| Config | Matches | Log-loss | Brier | Game share MAE | Game share RMSE |',
+        '| --- | --- | --- | --- | --- | --- |',
+        ...results.map((r) =>
+            `| ${r.label} | ${r.scoredMatches} | ${format(r.logLoss)} | ${format(r.brier)} | ${format(r.gameShareMae)} | ${format(r.gameShareRmse)} |`
+        ),
+    ];
+    return lines.join('\n');
+}
+
+/** Markdown table of one run's calibration buckets. */
+export function formatCalibrationTable(result: ReplayMetrics): string {
+    const lines = [
+        '| Predicted | Matches | Mean predicted | Observed win rate |',
+        '| --- | --- | --- | --- |',
+        ...result.calibration.map((b) =>
+            `| ${b.lower.toFixed(1)}-${b.upper.toFixed(1)} | ${b.count} | ${format(b.meanPredicted, 3)} | ${format(b.observedWinRate, 3)} |`
+        ),
+    ];
+    return lines.join('\n');
+}
+
+// --- Command line ---
+
+/** Reads a whole-number CLI option, e.g. `--warmup 5`; rejects anything else instead of replaying with NaN. */
+export function parseCountOption(name: string, value: string | undefined, fallback: number): number {
+    if (value === undefined) return fallback;
+    const count = Number(value);
+    if (value.trim() === '' || !Number.isInteger(count) || count < 0) {
+        throw new Error(`${name} must be a non-negative whole number, got '${value}'`);
+    }
+    return count;
+}
+
+if (import.meta.main) {
+    const args = [...Deno.args];
+    const option = (name: string) => {
+        const index = args.indexOf(name);
+        if (index < 0) return undefined;
+        const [, value] = args.splice(index, 2);
+        return value ?? ''; // A flag without its value is rejected, not ignored
+    };
+    const asJson = args.includes('--json');
+    if (asJson) args.splice(args.indexOf('--json'), 1);
+    const gridPath = option('--grid');
+    const usage = 'Usage: deno run --allow-read calibrate.ts matches.csv|matches.json [--grid grid.json] [--warmup N] [--json]';
+    let warmup = 0;
+    try {
+        warmup = parseCountOption('--warmup', option('--warmup'), 0);
+    } catch (error) {
+        console.error(`${(error as Error).message}\n${usage}`);
+        Deno.exit(1);
+    }
+    const inputPath = args[0];
+
+    if (!inputPath) {
+        console.error(usage);
+        Deno.exit(1);
+    }
+
+    const matches = parseHistoricalMatches(
+        await Deno.readTextFile(inputPath),
+        inputPath.toLowerCase().endsWith('.json') ? 'json' : 'csv'
+    );
+    const results = gridPath
+        ? sweepGrid(matches, JSON.parse(await Deno.readTextFile(gridPath)), { warmup })
+        : [replayMatches(matches, DEFAULT_CONFIG, { warmup })];
+
+    if (asJson) {
+        console.log(JSON.stringify(results, null, 2));
+    } else {
+        console.log(`Replayed ${matches.length} matches\n`);
+        console.log(formatComparisonTable(results));
+        console.log(`\nCalibration for ${results[0].label}:\n`);
+        console.log(formatCalibrationTable(results[0]));
+        if (results[0].skippedMatches.length > 0) {
+            console.log(`\nSkipped ${results[0].skippedMatches.length} matches:`);
+            for (const skipped of results[0].skippedMatches) {
+                console.log(`  ${skipped.matchId} (${skipped.code}): ${skipped.reason}`);
+            }
+        }
+    }
+}
@@ -0,0 +1,269 @@
+/**
+ * Rating Configuration Loading
+ *
+ * Resolves the `GlickoTRConfig` used to rate a match. Lookup order:
+ *   1. An active `rating_configs` row for the match's league and season
+ *   2. An active `rating_configs` row for the league with no season
+ *   3. The `GLICKO_CONFIG` environment variable (JSON)
+ *   4. `DEFAULT_CONFIG` from glicko.ts
+ * Any parameter missing from a stored config falls back to its default value.
+ * Event categories in a stored config are merged into the built-in registry.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.8'
+import { GlickoTRConfig, EventCategory, MatchOutcome, OutcomePolicy, PoolAttribute, RatingPoolConfig, ScoreModel, ScoreModelConfig, DEFAULT_CONFIG } from './glicko.ts'
+import { ConfigError, DatabaseError } from './errors.ts'
+
+export interface ConfigScope {
+    leagueId?: string | null;
+    seasonId?: string | null;
+}
+
+interface RatingConfigRow {
+    version: string;
+    league_id: string | null;
+    season_id: string | null;
+    params: Partial<GlickoTRConfig> | null;
+}
+
+// Parameters that must be finite, positive numbers
+const NUMERIC_KEYS: (keyof Omit<GlickoTRConfig, 'version' | 'categories' | 'separateDoublesRating' | 'outcomePolicies' | 'ratingPools' | 'scoreModel'>)[] = [
+    'tau',
+    'defaultPhi',
+    'defaultSigma',
+    'clampEpsilon',
+    'publicEventMultiplier',
+    'ratingPeriodDays',
+];
+
+function isPositiveNumber(value: unknown): value is number {
+    return typeof value === 'number' && isFinite(value) && value > 0;
+}
+
+// Keys that would reach Object.prototype instead of naming a category or outcome
+const RESERVED_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+/** Rejects a config key that cannot be a plain own property. */
+function assertPlainKey(kind: string, key: string, source: string): void {
+    if (RESERVED_KEYS.includes(key)) {
+        throw new ConfigError(source, `${kind} ${key} is a reserved name`);
+    }
+}
+
+/**
+ * Merges one category definition over the existing entry of the same name, if any.
+ * New categories must be fully defined.
+ */
+function parseEventCategory(
+    name: string,
+    raw: unknown,
+    existing: EventCategory | undefined,
+    source: string
+): EventCategory {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new ConfigError(source, `category ${name} must be an object`);
+    }
+    const merged = { ...existing, ...(raw as Partial<EventCategory>) } as EventCategory;
+
+    if (!isPositiveNumber(merged.baseWeight)) {
+        throw new ConfigError(source, `category ${name} needs a positive baseWeight`);
+    }
+    if (merged.scoreUnit !== 'games' && merged.scoreUnit !== 'points') {
+        throw new ConfigError(source, `category ${name} scoreUnit must be 'games' or 'points'`);
+    }
+    if (merged.retirement === undefined) {
+        throw new ConfigError(source, `category ${name} needs a retirement rule (or null)`);
+    }
+    if (merged.retirement !== null
+        && (!isPositiveNumber(merged.retirement.threshold) || !isPositiveNumber(merged.retirement.maxWeight))) {
+        throw new ConfigError(source, `category ${name} retirement needs a positive threshold and maxWeight`);
+    }
+    return {
+        baseWeight: merged.baseWeight,
+        scoreUnit: merged.scoreUnit,
+        retirement: merged.retirement,
+    };
+}
+
+const OUTCOME_RATING_MODES: OutcomePolicy['rating'][] = ['full', 'scaled', 'none'];
+
+/** Merges one outcome policy over the existing policy for that outcome. */
+function parseOutcomePolicy(
+    outcome: string,
+    raw: unknown,
+    existing: OutcomePolicy | undefined,
+    source: string
+): OutcomePolicy {
+    if (!existing) {
+        const known = Object.keys(DEFAULT_CONFIG.outcomePolicies).join(', ');
+        throw new ConfigError(source, `unknown outcome ${outcome} (known: ${known})`);
+    }
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new ConfigError(source, `outcome policy ${outcome} must be an object`);
+    }
+    const merged = { ...existing, ...(raw as Partial<OutcomePolicy>) };
+    if (typeof merged.countRecord !== 'boolean') {
+        throw new ConfigError(source, `outcome policy ${outcome} countRecord must be a boolean`);
+    }
+    if (!OUTCOME_RATING_MODES.includes(merged.rating)) {
+        throw new ConfigError(source, `outcome policy ${outcome} rating must be one of ${OUTCOME_RATING_MODES.join(', ')}`);
+    }
+    return { countRecord: merged.countRecord, rating: merged.rating };
+}
+
+const POOL_ATTRIBUTES: PoolAttribute[] = ['surface', 'event_category', 'league', 'season'];
+
+/** Merges the pool settings over the defaults. */
+function parseRatingPools(raw: unknown, source: string): RatingPoolConfig {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new ConfigError(source, `ratingPools must be an object`);
+    }
+    const merged = { ...DEFAULT_CONFIG.ratingPools, ...(raw as Partial<RatingPoolConfig>) };
+    if (!Array.isArray(merged.by) || merged.by.some((attribute) => !POOL_ATTRIBUTES.includes(attribute))) {
+        throw new ConfigError(source, `ratingPools.by must list attributes from ${POOL_ATTRIBUTES.join(', ')}`);
+    }
+    if (new Set(merged.by).size !== merged.by.length) {
+        throw new ConfigError(source, `ratingPools.by lists an attribute twice`);
+    }
+    if (typeof merged.blendOverall !== 'boolean') {
+        throw new ConfigError(source, `ratingPools.blendOverall must be a boolean`);
+    }
+    return { by: [...merged.by], blendOverall: merged.blendOverall };
+}
+
+const SCORE_MODELS: ScoreModel[] = ['win_loss', 'game_share', 'set_share', 'blend', 'points_won'];
+
+/** Merges the score model settings over the defaults. */
+function parseScoreModel(raw: unknown, source: string): ScoreModelConfig {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new ConfigError(source, `scoreModel must be an object`);
+    }
+    const merged = { ...DEFAULT_CONFIG.scoreModel, ...(raw as Partial<ScoreModelConfig>) };
+    if (!SCORE_MODELS.includes(merged.model)) {
+        throw new ConfigError(source, `scoreModel.model must be one of ${SCORE_MODELS.join(', ')}`);
+    }
+    if (typeof merged.winWeight !== 'number' || !(merged.winWeight >= 0 && merged.winWeight <= 1)) {
+        throw new ConfigError(source, `scoreModel.winWeight must be a number from 0 to 1`);
+    }
+    return { model: merged.model, winWeight: merged.winWeight };
+}
+
+/**
+ * Merges a partial config over the defaults and validates it.
+ * Throws a config error naming the source if any value is unusable.
+ */
+export function parseRatingConfig(raw: unknown, version: string, source: string): GlickoTRConfig {
+    if (raw !== null && (typeof raw !== 'object' || Array.isArray(raw))) {
+        throw new ConfigError(source, `params must be an object`);
+    }
+    const params = (raw ?? {}) as Record<string, unknown>;
+    const config: GlickoTRConfig = {
+        ...DEFAULT_CONFIG,
+        version,
+        categories: { ...DEFAULT_CONFIG.categories },
+        outcomePolicies: { ...DEFAULT_CONFIG.outcomePolicies },
+    };
+
+    for (const key of NUMERIC_KEYS) {
+        if (params[key] === undefined) continue;
+        const value = params[key];
+        if (!isPositiveNumber(value)) {
+            throw new ConfigError(source, `${key} must be a positive number, got ${JSON.stringify(value)}`);
+        }
+        config[key] = value;
+    }
+
+    if (params.separateDoublesRating !== undefined) {
+        if (typeof params.separateDoublesRating !== 'boolean') {
+            throw new ConfigError(source, `separateDoublesRating must be a boolean`);
+        }
+        config.separateDoublesRating = params.separateDoublesRating;
+    }
+
+    if (params.categories !== undefined) {
+        if (!params.categories || typeof params.categories !== 'object' || Array.isArray(params.categories)) {
+            throw new ConfigError(source, `categories must be an object`);
+        }
+        for (const [name, raw] of Object.entries(params.categories)) {
+            assertPlainKey('category', name, source);
+            const existing = Object.hasOwn(config.categories, name) ? config.categories[name] : undefined;
+            config.categories[name] = parseEventCategory(name, raw, existing, source);
+        }
+    }
+    if (params.outcomePolicies !== undefined) {
+        if (!params.outcomePolicies || typeof params.outcomePolicies !== 'object' || Array.isArray(params.outcomePolicies)) {
+            throw new ConfigError(source, `outcomePolicies must be an object`);
+        }
+        for (const [outcome, raw] of Object.entries(params.outcomePolicies)) {
+            assertPlainKey('outcome', outcome, source);
+            config.outcomePolicies[outcome as MatchOutcome] = parseOutcomePolicy(
+                outcome,
+                raw,
+                Object.hasOwn(config.outcomePolicies, outcome) ? config.outcomePolicies[outcome as MatchOutcome] : undefined,
+                source
+            );
+        }
+    }
+    if (params.ratingPools !== undefined) {
+        config.ratingPools = parseRatingPools(params.ratingPools, source);
+    }
+    if (params.scoreModel !== undefined) {
+        config.scoreModel = parseScoreModel(params.scoreModel, source);
+    }
+    if (config.clampEpsilon >= 0.5) {
+        throw new ConfigError(source, `clampEpsilon must be below 0.5`);
+    }
+    return config;
+}
+
+/** The config from the `GLICKO_CONFIG` environment variable, or the defaults. */
+export function loadEnvConfig(): GlickoTRConfig {
+    const raw = Deno.env.get('GLICKO_CONFIG');
+    if (!raw) return DEFAULT_CONFIG;
+
+    let parsed: Record<string, unknown>;
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        throw new ConfigError('GLICKO_CONFIG', 'not valid JSON');
+    }
+    const version = typeof parsed?.version === 'string' ? parsed.version : 'env';
+    return parseRatingConfig(parsed, version, 'GLICKO_CONFIG');
+}
+
+/**
+ * Creates a resolver that loads configs by league and season, caching each
+ * scope for the lifetime of the request.
+ */
+export function createConfigResolver(
+    supabaseAdmin: SupabaseClient
+): (scope: ConfigScope) => Promise<GlickoTRConfig> {
+    const cache = new Map<string, Promise<GlickoTRConfig>>();
+
+    const load = async (scope: ConfigScope): Promise<GlickoTRConfig> => {
+        if (!scope.leagueId) return loadEnvConfig();
+
+        const { data, error } = await supabaseAdmin
+            .from('rating_configs')
+            .select('version, league_id, season_id, params')
+            .eq('league_id', scope.leagueId)
+            .eq('is_active', true)
+            .returns<RatingConfigRow[]>();
+        if (error) throw new DatabaseError('Rating config fetch', error);
+
+        const rows = data ?? [];
+        const row = rows.find((r) => !!scope.seasonId && r.season_id === scope.seasonId)
+            ?? rows.find((r) => r.season_id === null);
+        if (!row) return loadEnvConfig();
+
+        return parseRatingConfig(row.params, row.version, `rating_configs ${row.version}`);
+    };
+
+    return (scope: ConfigScope) => {
+        const key = `${scope.leagueId ?? ''}|${scope.seasonId ?? ''}`;
+        if (!cache.has(key)) {
+            cache.set(key, load(scope));
+        }
+        return cache.get(key)!;
+    };
+}
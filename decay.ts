@@ -0,0 +1,104 @@
+/**
+ * Inactivity Decay Sweep
+ *
+ * Applies the Glicko-2 inactivity step to every profile that has sat out at
+ * least one whole rating period, so displayed uncertainty stays honest for
+ * players who have not played recently.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.8'
+import { GlickoTRConfig, DEFAULT_CONFIG, elapsedRatingPeriods, ratingPeriodMs } from './glicko.ts'
+import { ProfileData, PROFILE_COLUMNS, MAX_CONFLICT_RETRIES, decayAnchor, decayedRating, fetchAllRows } from './processing.ts'
+import { DatabaseError, NO_ROWS_CODE } from './errors.ts'
+
+export interface DecaySweepResult {
+    success: boolean;
+    scanned: number;
+    decayed: number;
+    failed: { profileId: string, reason: string }[];
+}
+
+type DecayOutcome = 'decayed' | 'current' | 'conflict';
+
+/**
+ * Decays one profile, guarded by its `rating_version` like a match write: the
+ * update only applies if the version is still the one read, and bumps it.
+ * Returns 'current' when there is no whole period to apply.
+ */
+async function decayProfile(
+    supabaseAdmin: SupabaseClient,
+    profile: ProfileData,
+    asOf: Date,
+    config: GlickoTRConfig
+): Promise<DecayOutcome> {
+    const anchor = decayAnchor(profile);
+    if (!anchor) return 'current';
+    const periods = elapsedRatingPeriods(anchor, asOf, config);
+    if (periods <= 0) return 'current';
+
+    const rating = decayedRating(profile, asOf, config);
+    const decayedAt = new Date(anchor.getTime() + periods * ratingPeriodMs(config)).toISOString();
+
+    const { data, error } = await supabaseAdmin
+        .from('profiles')
+        .update({ rating_phi: rating.phi, rating_decayed_at: decayedAt, rating_version: profile.rating_version + 1 })
+        .eq('id', profile.id)
+        .eq('rating_version', profile.rating_version)
+        .select('id')
+        .returns<{ id: string }[]>();
+    if (error) throw new DatabaseError('Profile update', error);
+
+    // No row matched: a match or another sweep wrote the profile since it was read
+    return (data ?? []).length > 0 ? 'decayed' : 'conflict';
+}
+
+/**
+ * Inflates phi for all inactive profiles as of `asOf`.
+ * `rating_decayed_at` is advanced by whole periods only, so partial periods
+ * carry over to the next sweep or match instead of being lost. A profile that
+ * changes between read and write is read again and retried up to
+ * `MAX_CONFLICT_RETRIES` times, then reported as failed.
+ */
+export async function runDecaySweep(
+    supabaseAdmin: SupabaseClient,
+    asOf: Date = new Date(),
+    config: GlickoTRConfig = DEFAULT_CONFIG
+): Promise<DecaySweepResult> {
+    const profiles = await fetchAllRows('Profile fetch', (from, to) => supabaseAdmin
+        .from('profiles')
+        .select(PROFILE_COLUMNS)
+        .not('last_played_at', 'is', null)
+        .order('id', { ascending: true })
+        .range(from, to)
+        .returns<ProfileData[]>());
+
+    const result: DecaySweepResult = { success: true, scanned: profiles.length, decayed: 0, failed: [] };
+
+    for (const scanned of profiles) {
+        let profile: ProfileData | null = scanned;
+        try {
+            for (let attempt = 1; profile; attempt++) {
+                const outcome = await decayProfile(supabaseAdmin, profile, asOf, config);
+                if (outcome === 'decayed') result.decayed++;
+                if (outcome !== 'conflict') break;
+                if (attempt > MAX_CONFLICT_RETRIES) {
+                    result.failed.push({ profileId: scanned.id, reason: `Rating version conflict: profile kept changing after ${MAX_CONFLICT_RETRIES} retries` });
+                    break;
+                }
+
+                const { data, error } = await supabaseAdmin
+                    .from('profiles')
+                    .select(PROFILE_COLUMNS)
+                    .eq('id', scanned.id)
+                    .single<ProfileData>();
+                if (error && error.code !== NO_ROWS_CODE) throw new DatabaseError('Profile fetch', error);
+                profile = data; // A deleted profile has nothing left to decay
+            }
+        } catch (error) {
+            result.failed.push({ profileId: scanned.id, reason: error instanceof Error ? error.message : String(error) });
+        }
+    }
+
+    result.success = result.failed.length === 0;
+    return result;
+}
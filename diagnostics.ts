@@ -0,0 +1,111 @@
+/**
+ * Health and Diagnostics
+ *
+ * Backs the opt-in `health` route: checks that the database answers and
+ * reports the environment rating config and which environment variables are
+ * set. Values of environment variables are never reported, only whether they
+ * are present, so the response is safe to show to whoever can reach it.
+ *
+ * The route is disabled unless `ENABLE_DIAGNOSTICS` is `true`.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.8'
+import { ScoreModel } from './glicko.ts'
+import { loadEnvConfig } from './config.ts'
+import { LogLevel, logLevelFromEnv } from './logger.ts'
+
+// Environment variables the function reads; only their presence is reported
+const KNOWN_ENV_VARS = [
+    'PROJECT_URL',
+    'SERVICE_ROLE_KEY',
+    'WEBHOOK_SECRET',
+    'ADMIN_SECRET',
+    'JWT_SECRET',
+    'GLICKO_CONFIG',
+    'LOG_LEVEL',
+    'ENABLE_DIAGNOSTICS',
+];
+
+export interface DiagnosticsResult {
+    status: 'ok' | 'degraded';
+    database: { ok: boolean, latencyMs: number, error: string | null };
+    config: {
+        ok: boolean;
+        error: string | null;
+        version: string | null;
+        tau: number | null;
+        defaultPhi: number | null;
+        defaultSigma: number | null;
+        ratingPeriodDays: number | null;
+        separateDoublesRating: boolean | null;
+        ratingPools: string[] | null; // Pool attributes, empty when pools are off
+        scoreModel: ScoreModel | null;
+        categories: string[];
+    };
+    logLevel: LogLevel;
+    env: Record<string, boolean>; // Whether each variable is set; never its value
+}
+
+/** Whether the `health` route is enabled. */
+export function diagnosticsEnabled(): boolean {
+    return Deno.env.get('ENABLE_DIAGNOSTICS') === 'true';
+}
+
+/** Runs a cheap query against `matches` and times it. */
+async function checkDatabase(supabaseAdmin: SupabaseClient): Promise<DiagnosticsResult['database']> {
+    const started = performance.now();
+    try {
+        const { error } = await supabaseAdmin.from('matches').select('id').limit(1);
+        const latencyMs = Math.round(performance.now() - started);
+        return { ok: !error, latencyMs, error: error ? error.message : null };
+    } catch (error) {
+        const latencyMs = Math.round(performance.now() - started);
+        return { ok: false, latencyMs, error: error instanceof Error ? error.message : 'Database check failed' };
+    }
+}
+
+function describeConfig(): DiagnosticsResult['config'] {
+    try {
+        const config = loadEnvConfig();
+        return {
+            ok: true,
+            error: null,
+            version: config.version,
+            tau: config.tau,
+            defaultPhi: config.defaultPhi,
+            defaultSigma: config.defaultSigma,
+            ratingPeriodDays: config.ratingPeriodDays,
+            separateDoublesRating: config.separateDoublesRating,
+            ratingPools: [...config.ratingPools.by],
+            scoreModel: config.scoreModel.model,
+            categories: Object.keys(config.categories),
+        };
+    } catch (error) {
+        return {
+            ok: false,
+            error: error instanceof Error ? error.message : 'Config could not be loaded',
+            version: null,
+            tau: null,
+            defaultPhi: null,
+            defaultSigma: null,
+            ratingPeriodDays: null,
+            separateDoublesRating: null,
+            ratingPools: null,
+            scoreModel: null,
+            categories: [],
+        };
+    }
+}
+
+/** Checks the database and reports the function's configuration. */
+export async function runDiagnostics(supabaseAdmin: SupabaseClient): Promise<DiagnosticsResult> {
+    const database = await checkDatabase(supabaseAdmin);
+    const config = describeConfig();
+    return {
+        status: database.ok && config.ok ? 'ok' : 'degraded',
+        database,
+        config,
+        logLevel: logLevelFromEnv(),
+        env: Object.fromEntries(KNOWN_ENV_VARS.map((name) => [name, !!Deno.env.get(name)])),
+    };
+}
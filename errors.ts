@@ -0,0 +1,205 @@
+/**
+ * Error Model
+ *
+ * Every error the function reports on purpose is an `ApiError` with a stable,
+ * machine-readable `code`, the HTTP status it maps to and a `details` object.
+ * Clients branch on `code`; `message` is for people and may be reworded.
+ *
+ * Errors reach the client in one envelope:
+ *   { "success": false, "error": { "code", "message", "details" }, "requestId" }
+ * Anything thrown that is not an `ApiError` is reported as `internal_error`
+ * without its message, which is only logged.
+ */
+
+export type ErrorCode =
+    | 'invalid_body'           // The request body is not JSON or has missing or invalid parameters
+    | 'unauthorized'           // No valid bearer token or secret
+    | 'forbidden'              // The caller is known but may not do this
+    | 'not_found'              // The route does not exist or is disabled
+    | 'method_not_allowed'
+    | 'match_not_found'
+    | 'profile_missing'        // A player in the match has no profile
+    | 'player_already_rated'   // The player has rated matches, so seeding needs a recompute
+    | 'match_not_confirmed'    // The match cannot be rated before it is confirmed
+    | 'already_rated'          // The match was rated before; used in batch results, a direct call returns the stored result
+    | 'invalid_match'          // The stored match cannot be rated, e.g. no winner or a player listed twice
+    | 'unknown_event_category'
+    | 'invalid_score'          // The score breaks tennis rules; details list every problem
+    | 'rating_conflict'        // Profiles kept changing while the match was rated
+    | 'rpc_failed'             // A rating RPC failed for a reason other than a conflict
+    | 'database_error'         // A read from the database failed
+    | 'config_error'           // The rating config is invalid
+    | 'internal_error';
+
+/** The HTTP status for each code. */
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+    invalid_body: 400,
+    unauthorized: 401,
+    forbidden: 403,
+    not_found: 404,
+    method_not_allowed: 405,
+    match_not_found: 404,
+    profile_missing: 404,
+    player_already_rated: 409,
+    match_not_confirmed: 409,
+    already_rated: 409,
+    invalid_match: 400,
+    unknown_event_category: 400,
+    invalid_score: 422,
+    rating_conflict: 409,
+    rpc_failed: 500,
+    database_error: 500,
+    config_error: 500,
+    internal_error: 500,
+};
+
+export type ErrorDetails = Record<string, unknown>;
+
+/** An error with a stable code, reported to the client in the error envelope. */
+export class ApiError extends Error {
+    code: ErrorCode;
+    status: number;
+    details: ErrorDetails;
+
+    constructor(code: ErrorCode, message: string, details: ErrorDetails = {}) {
+        super(message);
+        this.name = 'ApiError';
+        this.code = code;
+        this.status = ERROR_STATUS[code];
+        this.details = details;
+    }
+}
+
+/** PostgREST's error code when `.single()` finds no row. */
+export const NO_ROWS_CODE = 'PGRST116';
+
+/** The shape of a Supabase/PostgREST error. */
+interface PostgrestErrorLike {
+    message: string;
+    code?: string;
+    details?: string | null;
+    hint?: string | null;
+}
+
+/** The body is not JSON, or a parameter is missing or invalid. */
+export class InvalidBodyError extends ApiError {
+    constructor(message: string, details: ErrorDetails = {}) {
+        super('invalid_body', message, details);
+        this.name = 'InvalidBodyError';
+    }
+}
+
+export class UnauthorizedError extends ApiError {
+    constructor(message: string) {
+        super('unauthorized', message);
+        this.name = 'UnauthorizedError';
+    }
+}
+
+export class ForbiddenError extends ApiError {
+    constructor(message: string, details: ErrorDetails = {}) {
+        super('forbidden', message, details);
+        this.name = 'ForbiddenError';
+    }
+}
+
+export class MatchNotFoundError extends ApiError {
+    constructor(matchId: string, options: { rated?: boolean } = {}) {
+        super('match_not_found', `${options.rated ? 'Rated match' : 'Match'} with ID ${matchId} not found.`, { matchId, rated: options.rated === true });
+        this.name = 'MatchNotFoundError';
+    }
+}
+
+export class ProfileMissingError extends ApiError {
+    constructor(playerIds: string[]) {
+        super('profile_missing', `Could not find all player profiles for IDs: ${playerIds.join(', ')}`, { playerIds });
+        this.name = 'ProfileMissingError';
+    }
+}
+
+export class PlayerAlreadyRatedError extends ApiError {
+    constructor(playerId: string) {
+        super('player_already_rated', `Player ${playerId} already has rated matches; send "recompute": true to seed the rating and replay them.`, { playerId });
+        this.name = 'PlayerAlreadyRatedError';
+    }
+}
+
+export class MatchNotConfirmedError extends ApiError {
+    constructor(matchId: string, status: string) {
+        super('match_not_confirmed', `Match ${matchId} status is '${status}', expected 'confirmed'.`, { matchId, status });
+        this.name = 'MatchNotConfirmedError';
+    }
+}
+
+/** The stored match itself cannot be rated. */
+export class InvalidMatchError extends ApiError {
+    constructor(matchId: string, message: string) {
+        super('invalid_match', message, { matchId });
+        this.name = 'InvalidMatchError';
+    }
+}
+
+export class UnknownEventCategoryError extends ApiError {
+    constructor(eventCategory: string, known: string[], matchId?: string) {
+        super(
+            'unknown_event_category',
+            `Unknown event category '${eventCategory}'${matchId ? ` for match ${matchId}` : ''} (known: ${known.join(', ')})`,
+            { eventCategory, known, ...(matchId ? { matchId } : {}) }
+        );
+        this.name = 'UnknownEventCategoryError';
+    }
+}
+
+export class RatingConflictError extends ApiError {
+    constructor(message: string, details: ErrorDetails = {}) {
+        super('rating_conflict', message, details);
+        this.name = 'RatingConflictError';
+    }
+}
+
+export class RpcError extends ApiError {
+    constructor(rpcName: string, error: PostgrestErrorLike) {
+        super(
+            'rpc_failed',
+            `RPC ${rpcName} failed: ${error.message} (Code: ${error.code}, Details: ${error.details}, Hint: ${error.hint})`,
+            { rpc: rpcName, postgresCode: error.code ?? null, hint: error.hint ?? null }
+        );
+        this.name = 'RpcError';
+    }
+}
+
+/** A read failed; `what` names it, e.g. 'Match fetch'. */
+export class DatabaseError extends ApiError {
+    constructor(what: string, error: PostgrestErrorLike) {
+        super('database_error', `${what} error: ${error.message}`, { operation: what, postgresCode: error.code ?? null });
+        this.name = 'DatabaseError';
+    }
+}
+
+/** The rating config from `source` (e.g. 'GLICKO_CONFIG') is invalid. */
+export class ConfigError extends ApiError {
+    constructor(source: string | null, message: string) {
+        super('config_error', `Rating config error${source ? ` (${source})` : ''}: ${message}`, { source });
+        this.name = 'ConfigError';
+    }
+}
+
+/** `error` as an `ApiError`; anything else becomes an `internal_error` without its message. */
+export function toApiError(error: unknown): ApiError {
+    if (error instanceof ApiError) return error;
+    return new ApiError('internal_error', 'An unexpected error occurred.');
+}
+
+/** The body of an error response. */
+export function errorEnvelope(error: ApiError, requestId?: string) {
+    return {
+        success: false,
+        error: { code: error.code, message: error.message, details: error.details },
+        ...(requestId ? { requestId } : {}),
+    };
+}
+
+/** The error code for a failed item in a batch or replay, e.g. a batch result. */
+export function errorCode(error: unknown): ErrorCode {
+    return error instanceof ApiError ? error.code : 'internal_error';
+}
@@ -5,6 +5,8 @@
  * adapted from the provided Python script (research/glickoTR/glickoTR.py).
  */
 
+import { rootLogger } from './logger.ts'
+
 // --- Constants ---
 // Default Glicko-2 parameters (matching Python script)
 const DEFAULT_MU = 1500.0;
@@ -28,6 +30,9 @@ const CLAMP_EPSILON = 1e-1;
 const TIEBREAK_EVENT_BASE_WEIGHT = 0.6; 
 const PUBLIC_EVENT_MULTIPLIER = 1.5;
 
+// Length of one rating period for inactivity decay, in days
+const RATING_PERIOD_DAYS = 30;
+
 // --- Interfaces ---
 
 /** Represents a player's rating parameters on the original scale. */
@@ -37,6 +42,132 @@ export interface PlayerRating {
   sigma: number; // Rating Volatility
 }
 
+/**
+ * Defines how matches of one event category are weighted.
+ * Scores for the category are recorded as games or as points.
+ */
+export interface EventCategory {
+  baseWeight: number;          // Weight of a completed event
+  scoreUnit: 'games' | 'points';
+  // Retired events scale linearly up to `maxWeight` once `threshold` games (or points) are played.
+  // Null means any event that was not a walkover counts with the full base weight.
+  retirement: { threshold: number, maxWeight: number } | null;
+}
+
+/** Built-in event categories. Configs can override these or add new ones. */
+export const DEFAULT_EVENT_CATEGORIES: Readonly<Record<string, EventCategory>> = Object.freeze({
+  standard_match: { baseWeight: 1.0, scoreUnit: 'games', retirement: { threshold: 18, maxWeight: 0.8 } },
+  tiebreak_event: { baseWeight: TIEBREAK_EVENT_BASE_WEIGHT, scoreUnit: 'points', retirement: null },
+  // One set to 8 games
+  pro_set: { baseWeight: 0.7, scoreUnit: 'games', retirement: { threshold: 10, maxWeight: 0.56 } },
+  // Best of three short sets to 4 games
+  fast4: { baseWeight: 0.8, scoreUnit: 'games', retirement: { threshold: 10, maxWeight: 0.64 } },
+  // A single match tiebreak to 10 points played instead of a deciding set
+  match_tiebreak: { baseWeight: 0.5, scoreUnit: 'points', retirement: null },
+});
+
+/** How a match ended, as recorded in the score payload. `default` covers disqualifications. */
+export type MatchOutcome = 'completed' | 'retired' | 'walkover' | 'default';
+
+/**
+ * What a match outcome does to the players.
+ * `rating`: 'full' rates the score with the category's full weight, 'scaled'
+ * scales the weight by games played like a retirement, and 'none' leaves the
+ * ratings (including phi) untouched.
+ */
+export interface OutcomePolicy {
+  countRecord: boolean; // Whether the match counts in the wins/losses record
+  rating: 'full' | 'scaled' | 'none';
+}
+
+/** Built-in outcome policies: walkovers count in the record but do not move ratings. */
+export const DEFAULT_OUTCOME_POLICIES: Readonly<Record<MatchOutcome, OutcomePolicy>> = Object.freeze({
+  completed: { countRecord: true, rating: 'full' },
+  retired: { countRecord: true, rating: 'scaled' },
+  walkover: { countRecord: true, rating: 'none' },
+  default: { countRecord: true, rating: 'scaled' },
+});
+
+/** Match attributes a rating pool can be chosen by. */
+export type PoolAttribute = 'surface' | 'event_category' | 'league' | 'season';
+
+/**
+ * Rating pools. With `by` empty every match updates the profile's one rating.
+ * Otherwise the match's values for these attributes name the pool it is rated
+ * in, and each player has an independent rating per pool.
+ */
+export interface RatingPoolConfig {
+  by: PoolAttribute[];
+  blendOverall: boolean; // Also write the blend of the player's pool ratings to the profile's rating
+}
+
+/** Built-in pool settings: a single rating per player. */
+export const DEFAULT_RATING_POOLS: Readonly<RatingPoolConfig> = Object.freeze({ by: [], blendOverall: false });
+
+/**
+ * How a match's score becomes the actual score S in [0, 1] for side 1:
+ *   - 'win_loss': 1 for the winner, 0 for the loser
+ *   - 'game_share': share of games won (of points for point-scored categories)
+ *   - 'set_share': share of the decided sets won
+ *   - 'blend': `winWeight` times win/loss plus the rest times game share
+ *   - 'points_won': share of points won, when the score has point totals
+ * A model without the data it needs falls back to 'game_share'.
+ */
+export type ScoreModel = 'win_loss' | 'game_share' | 'set_share' | 'blend' | 'points_won';
+
+export interface ScoreModelConfig {
+  model: ScoreModel;
+  winWeight: number; // 'blend' only: weight of the win/loss result, in [0, 1]
+}
+
+/** Built-in score model: the share of games won. */
+export const DEFAULT_SCORE_MODEL: Readonly<ScoreModelConfig> = Object.freeze({ model: 'game_share', winWeight: 0.5 });
+
+/**
+ * Tunable rating system parameters. Every calculation accepts one of these,
+ * so two leagues can be rated with different settings.
+ */
+export interface GlickoTRConfig {
+  version: string;                  // Recorded against each match rated with this config
+  tau: number;                      // System constant (controls volatility change speed)
+  defaultPhi: number;               // Starting RD, and the cap for inactivity decay
+  defaultSigma: number;             // Starting volatility
+  clampEpsilon: number;             // Expected scores are clamped to [eps, 1 - eps]
+  publicEventMultiplier: number;
+  ratingPeriodDays: number;         // Length of one rating period for inactivity decay
+  categories: Record<string, EventCategory>; // Registry of event categories that can be rated
+  separateDoublesRating: boolean;   // Rate doubles on a separate rating instead of the singles one
+  outcomePolicies: Record<MatchOutcome, OutcomePolicy>; // Record and rating effect of each match outcome
+  ratingPools: RatingPoolConfig;    // Which pool a match is rated in
+  scoreModel: ScoreModelConfig;     // How the score becomes the actual score S
+}
+
+/** Today's parameter values. Used whenever no config is supplied. */
+export const DEFAULT_CONFIG: Readonly<GlickoTRConfig> = Object.freeze({
+  version: 'default',
+  tau: TAU,
+  defaultPhi: DEFAULT_PHI,
+  defaultSigma: DEFAULT_SIGMA,
+  clampEpsilon: CLAMP_EPSILON,
+  publicEventMultiplier: PUBLIC_EVENT_MULTIPLIER,
+  ratingPeriodDays: RATING_PERIOD_DAYS,
+  categories: DEFAULT_EVENT_CATEGORIES,
+  separateDoublesRating: false,
+  outcomePolicies: DEFAULT_OUTCOME_POLICIES,
+  ratingPools: DEFAULT_RATING_POOLS,
+  scoreModel: DEFAULT_SCORE_MODEL,
+});
+
+/** Looks up an event category in the config's registry. */
+export function getEventCategory(
+  eventCategory: string,
+  config: GlickoTRConfig = DEFAULT_CONFIG
+): EventCategory | undefined {
+  return Object.prototype.hasOwnProperty.call(config.categories, eventCategory)
+    ? config.categories[eventCategory]
+    : undefined;
+}
+
 /** Represents a player's rating parameters on the internal Glicko-2 scale. */
 interface Glicko2Rating {
   mu: number;
@@ -83,189 +214,357 @@ function reduceImpact(rating_g2: Glicko2Rating): number {
 /**
  * The Glicko-2 `E` function. Calculates expected score (win probability).
  */
-function expectScore(rating_g2: Glicko2Rating, other_rating_g2: Glicko2Rating, impact: number): number {
+function expectScore(rating_g2: Glicko2Rating, other_rating_g2: Glicko2Rating, impact: number, clampEpsilon: number): number {
   // TODO: Implement logic from python expect_score, including clamping
   const exponent = -impact * (rating_g2.mu - other_rating_g2.mu);
   const score = 1.0 / (1.0 + Math.exp(exponent));
   // Clamp score
-  return Math.max(CLAMP_EPSILON, Math.min(score, 1.0 - CLAMP_EPSILON));
+  return Math.max(clampEpsilon, Math.min(score, 1.0 - clampEpsilon));
+}
+
+/** Which weighting rule decided a match's base weight. */
+export type WeightRule =
+  | 'completed'
+  | 'retired_scaled'
+  | 'tiebreak'
+  | 'walkover'
+  | 'unknown_status';
+
+/** How a match's weight was derived. */
+export interface WeightBreakdown {
+  rule: WeightRule;
+  baseWeight: number;
+  publicMultiplier: number; // 1.0 unless the public event multiplier was applied
+  matchWeight: number;      // baseWeight * publicMultiplier
 }
 
 /**
- * Calculates the weight of a match based on status and game scores.
+ * Calculates the weight of a match based on status and game scores,
+ * recording which rule fired. Throws for categories missing from the registry.
  */
 function calculateMatchWeight(
   status: string, // Overall status of the event
-  playerGames: number, // Games for standard, points for tiebreak
-  opponentGames: number, // Games for standard, points for tiebreak
+  playerGames: number, // Games, or points for point-scored categories
+  opponentGames: number, // Games, or points for point-scored categories
   eventCategory: string,
-  isPublicEvent: boolean
-): number {
+  isPublicEvent: boolean,
+  config: GlickoTRConfig
+): WeightBreakdown {
   let baseWeight = 0.0;
+  let rule: WeightRule;
 
   // Constants for status, ensure they are consistently defined or imported if used elsewhere
   const COMPLETED = 'completed'; 
   const RETIRED = 'retired';
   const WALKOVER = 'walkover';
 
-  if (eventCategory === 'tiebreak_event') {
-    // For a tiebreak event, its 'status' is implicitly completed if scores are provided and not a walkover.
-    // The main check is if the event *itself* is a walkover, otherwise apply tiebreak weight.
-    if (status === WALKOVER) { // If a tiebreak entry itself is marked as a walkover (e.g. opponent didn't show for scheduled tiebreak)
-        baseWeight = 0.0;
-    } else {
-        baseWeight = TIEBREAK_EVENT_BASE_WEIGHT;
-    }
-  } else if (eventCategory === 'standard_match') {
-    // Existing logic for standard match status
-    if (status === WALKOVER) {
+  const category = getEventCategory(eventCategory, config);
+  if (!category) {
+    throw new Error(`Unknown event category: ${eventCategory}`);
+  }
+
+  if (status === WALKOVER) {
+    baseWeight = 0.0;
+    rule = 'walkover';
+  } else if (category.retirement === null) {
+    // e.g. a tiebreak event: implicitly completed if scores are provided and it is not a walkover
+    baseWeight = category.baseWeight;
+    rule = category.scoreUnit === 'points' ? 'tiebreak' : 'completed';
+  } else if (status === COMPLETED) {
+    baseWeight = category.baseWeight;
+    rule = 'completed';
+  } else if (status === RETIRED) {
+    rule = 'retired_scaled';
+    const total_games = playerGames + opponentGames;
+    if (total_games <= 0) {
       baseWeight = 0.0;
-    } else if (status === COMPLETED) {
-      baseWeight = 1.0;
-    } else if (status === RETIRED) {
-      const total_games = playerGames + opponentGames;
-      if (total_games <= 0) {
-        baseWeight = 0.0;
-      } else {
-        const threshold_games = 18.0; // Keep existing logic for standard match retirement
-        const max_retirement_weight = 0.8;
-        baseWeight = Math.min(1.0, total_games / threshold_games) * max_retirement_weight;
-      }
     } else {
-      console.warn(`Unknown status for standard_match: ${status}`);
-      baseWeight = 0.0; // Unknown status for standard match
+      baseWeight = Math.min(1.0, total_games / category.retirement.threshold) * category.retirement.maxWeight;
     }
   } else {
-    // Unknown event category
-    console.warn(`Unknown event category: ${eventCategory}`);
-    baseWeight = 0.0;
+    rootLogger.warn('Unknown match status, match weight set to 0', { eventCategory, status });
+    baseWeight = 0.0; // Unknown status
+    rule = 'unknown_status';
   }
 
   // Apply public event multiplier if applicable and baseWeight is positive
-  if (isPublicEvent && baseWeight > 0) {
-    return baseWeight * PUBLIC_EVENT_MULTIPLIER;
-  }
+  const publicMultiplier = isPublicEvent && baseWeight > 0 ? config.publicEventMultiplier : 1.0;
+  const matchWeight = baseWeight * publicMultiplier;
+
+  return { rule, baseWeight, publicMultiplier, matchWeight };
+}
 
-  return baseWeight;
+/** Why the volatility step did not produce a converged root. */
+export type SigmaFallbackReason =
+  | 'invalid_input'   // A non-finite or non-positive input; the previous sigma is kept
+  | 'no_bracket'      // No sign change was found around the root; the previous sigma is kept
+  | 'non_finite'      // f could not be evaluated inside the bracket; the previous sigma is kept
+  | 'max_iterations'; // The bracket did not shrink below EPSILON; the latest estimate is used
+
+/** How the volatility step ended, reported in the match breakdown. */
+export interface SigmaSolverStatus {
+  converged: boolean;
+  iterations: number;
+  fallbackReason: SigmaFallbackReason | null; // null when converged
 }
 
+/** New volatility from `determineSigma`, with how it was reached. */
+export interface SigmaSolution {
+  sigma: number;
+  status: SigmaSolverStatus;
+}
+
+// Safety limits; the bracket search needs a handful of steps and Illinois well under 100
+const MAX_BRACKET_STEPS = 1000;
+const MAX_SIGMA_ITERATIONS = 100;
+
 /**
- * Iterative procedure to determine the new volatility (sigma').
- * Based on Glicko-2 paper.
+ * Step 5 of the Glicko-2 paper: finds the new volatility (sigma') as the root
+ * of f(x) with the Illinois algorithm, on the Glicko-2 scale.
+ *
+ * The root is always bracketed before iterating. The paper's bound B is used
+ * when it gives a sign change with f(A); otherwise B is searched in steps of
+ * tau away from A, which ends because f tends to +infinity below the root and
+ * -infinity above it. The previous sigma is only kept when the inputs are
+ * unusable, and the status says why.
  */
-function determineSigma(rating_g2: Glicko2Rating, difference: number, variance: number): number {
-  // TODO: Implement the complex iterative logic from python determine_sigma
-  const phi = rating_g2.phi;
-  const sigma = rating_g2.sigma;
+export function determineSigma(
+  phi: number,        // Pre-period phi on the Glicko-2 scale
+  sigma: number,      // Pre-period sigma
+  difference: number, // Delta
+  variance: number,   // v
+  tau: number
+): SigmaSolution {
+  const fallback = (reason: SigmaFallbackReason, iterations: number): SigmaSolution => ({
+    sigma,
+    status: { converged: false, iterations, fallbackReason: reason },
+  });
+
+  if (![phi, sigma, difference, variance, tau].every(isFinite) || sigma <= 0 || tau <= 0 || variance <= 0) {
+    return fallback('invalid_input', 0);
+  }
+
+  const phi_squared = phi ** 2;
   const difference_squared = difference ** 2;
-  const alpha = Math.log(sigma ** 2);
-  const tau_squared = TAU ** 2;
+  const a = Math.log(sigma ** 2);
+  const tau_squared = tau ** 2;
 
   const f = (x: number): number => {
-      const exp_x = Math.exp(x);
-      const tmp = phi ** 2 + variance + exp_x;
-      // Avoid division by zero / very small numbers
-      if (tmp < 1e-15) { 
-          // console.warn("determineSigma: tmp near zero in f(x)");
-          // Return a value that pushes the algorithm away, but ensure it's finite.
-          // The exact value might need tuning, but the sign matters.
-          return (x - alpha) / tau_squared - 1; // Ensure it's negative relative to the second term if diff_sq is large
-      }
-      const a_term = exp_x * (difference_squared - phi ** 2 - variance - exp_x) / (2 * tmp ** 2);
-      const b_term = (x - alpha) / tau_squared;
-      return a_term - b_term;
+    const exp_x = Math.exp(x);
+    const tmp = phi_squared + variance + exp_x;
+    return exp_x * (difference_squared - phi_squared - variance - exp_x) / (2 * tmp ** 2) - (x - a) / tau_squared;
   };
 
-  // Initial bounds A and B
-  let a = alpha;
-  let b: number;
+  // 1. Bracket the root between A and B
+  let A = a;
+  let f_A = f(A);
+  if (!isFinite(f_A)) return fallback('non_finite', 0);
+  if (f_A === 0) {
+    return { sigma, status: { converged: true, iterations: 0, fallbackReason: null } };
+  }
 
-  if (difference_squared > phi ** 2 + variance) {
-      b = Math.log(difference_squared - phi ** 2 - variance);
-  } else {
-      let k = 1;
-      const max_k = 100; // Safety break
-      // Ensure argument to f is finite
-      while (k < max_k && alpha - k * TAU >= -700 && f(alpha - k * TAU) >= 0) { // Check approx exp lower bound
-           k += 1;
-      }
-      b = alpha - k * TAU;
+  let B = NaN;
+  let f_B = NaN;
+  if (difference_squared > phi_squared + variance) {
+    B = Math.log(difference_squared - phi_squared - variance);
+    f_B = f(B);
+  }
+  if (!(f_A * f_B <= 0)) {
+    // The paper's search, extended to both directions: step towards the root until f changes sign
+    const direction = f_A < 0 ? -1 : 1;
+    let k = 1;
+    B = a + direction * k * tau;
+    f_B = f(B);
+    while (f_A * f_B > 0 && k < MAX_BRACKET_STEPS) {
+      k += 1;
+      B = a + direction * k * tau;
+      f_B = f(B);
+    }
+    if (!isFinite(f_B)) return fallback('non_finite', 0);
+    if (f_A * f_B > 0) return fallback('no_bracket', 0);
   }
 
-  let f_a = f(a);
-  let f_b = f(b);
-
-  // Convergence loop (Illinois method variant from Python code)
-  let iter = 0;
-  const max_iter = 100; // Safety break
-  while (Math.abs(b - a) > EPSILON && iter < max_iter) {
-      // Handle cases where initial f_a or f_b might be non-finite if bounds are extreme
-      if (!isFinite(f_a) || !isFinite(f_b)) {
-           // console.warn("determineSigma: Non-finite f(a) or f(b) initially");
-           return sigma; // Fallback to current sigma
-      }
-      
-      // If signs are the same, something is wrong (numeric issue or bad bounds)
-      if (f_a * f_b >= 0) {
-          // console.warn(`determineSigma convergence issue: f(a)=${f_a}, f(b)=${f_b} have same sign.`);
-           // Try to adjust bounds slightly or fallback
-           // This might indicate variance is extremely high or difference is zero
-           // Fallback: return current sigma might be safest if variance is reasonable
-           if (variance < 1e6) return sigma; 
-           // If variance is huge, maybe volatility should shrink?
-           return sigma * 0.9; // Educated guess - needs careful thought
-      }
-      
-      // Illinois method calculation for c
-      let c = a + (a - b) * f_a / (f_b - f_a); 
-      // Ensure c is finite
-       if (!isFinite(c)) {
-           // console.warn("determineSigma: c became non-finite");
-           c = (a + b) / 2; // Fallback to bisection step
-       }
-      let f_c = f(c);
-      if (!isFinite(f_c)){
-          // console.warn("determineSigma: f(c) became non-finite");
-          // Attempt to recover or break
-          if (Math.abs(b-a) < EPSILON * 10) break; // If close, maybe exit
-          c = (a+b)/2; // Try bisection
-          f_c = f(c);
-          if (!isFinite(f_c)) break; // Give up if still non-finite
-      }
-
-      if (f_c * f_b < 0) {
-          a = b;
-          f_a = f_b;
-      } else {
-          // Modified update to prevent stalling (f_a update)
-          const safe_denom = f_b + f_c;
-          if (Math.abs(safe_denom) < 1e-15) { // Avoid division by zero
-              f_a *= 0.5; // Simple damping if denominator is zero
-          } else {
-             f_a *= f_b / safe_denom; 
-          }
-      }
-      b = c;
-      f_b = f_c;
-
-      // Safety break for potential infinite loops if difference is tiny
-      if (Math.abs(f_b - f_a) < EPSILON) {
-          break;
-      }
-      iter++;
+  // 2. Illinois iterations; [A, B] always keeps a sign change
+  let iterations = 0;
+  while (Math.abs(B - A) > EPSILON) {
+    if (iterations >= MAX_SIGMA_ITERATIONS) {
+      return { sigma: Math.exp(A / 2), status: { converged: false, iterations, fallbackReason: 'max_iterations' } };
+    }
+    iterations++;
+
+    const C = A + (A - B) * f_A / (f_B - f_A);
+    const f_C = f(C);
+    if (!isFinite(f_C)) return fallback('non_finite', iterations);
+    // An exact root: the paper's step would halve f_A forever without moving A
+    if (f_C === 0) {
+      return { sigma: Math.exp(C / 2), status: { converged: true, iterations, fallbackReason: null } };
+    }
+
+    if (f_C * f_B < 0) {
+      A = B;
+      f_A = f_B;
+    } else {
+      f_A = f_A / 2;
+    }
+    B = C;
+    f_B = f_C;
   }
-   if (iter >= max_iter) {
-       // console.warn("determineSigma reached max iterations");
-   }
 
-  // Return the new sigma value
-  return Math.exp(b / 2);
+  // Step 5.5 of the paper: sigma' = e^(A/2)
+  return { sigma: Math.exp(A / 2), status: { converged: true, iterations, fallbackReason: null } };
 }
 
+/**
+ * A single weighted result within a rating period, from the rated player's perspective.
+ */
+export interface RatingPeriodResult {
+  opponentRating: PlayerRating;
+  playerGames: number;   // Games for standard, points for tiebreak
+  opponentGames: number; // Games for standard, points for tiebreak
+  status: string;        // e.g., 'completed', 'retired', 'walkover'
+  eventCategory: string; // A category registered in the config, e.g. standard_match or tiebreak_event
+  isPublicEvent: boolean;
+  actualScore?: number;  // S from the config's score model; defaults to the player's share of games
+}
+
+/** Intermediate values computed for one result of a rating period. */
+export interface ResultOutcome {
+  weight: WeightBreakdown;
+  expectedScore: number; // E, from the player's perspective
+  actualScore: number;   // S, the player's score under the score model
+  impact: number;        // g(phi) of the opponent
+}
+
+/**
+ * Shared implementation of the rating period update that also returns the
+ * per-result intermediate values.
+ */
+function ratePeriod(
+  playerRating: PlayerRating,
+  results: RatingPeriodResult[],
+  config: GlickoTRConfig
+): { rating: PlayerRating, outcomes: ResultOutcome[], variance: number | null, sigmaSolver: SigmaSolverStatus | null } {
+  const player_g2 = scaleDown(playerRating);
+  const outcomes: ResultOutcome[] = [];
+
+  // 1. Accumulate the summed terms over every result with a positive weight
+  let diffSum = 0;           // sum of w * g * (S - E), used in the mu update and sigma step
+  let varianceInvSum = 0;    // sum of w * g^2 * E * (1 - E), used in the phi update
+  let unweightedInvSum = 0;  // sum of g^2 * E * (1 - E), inverted to give v for the sigma step
+
+  for (const result of results) {
+    const weight = calculateMatchWeight(
+      result.status,
+      result.playerGames,
+      result.opponentGames,
+      result.eventCategory,
+      result.isPublicEvent,
+      config
+    );
+    const matchWeight = weight.matchWeight;
+
+    const opponent_g2 = scaleDown(result.opponentRating);
+    const impact = reduceImpact(opponent_g2);
+    const expectedScore = expectScore(player_g2, opponent_g2, impact, config.clampEpsilon);
+    const totalGames = result.playerGames + result.opponentGames;
+    const actualScore = result.actualScore ?? (totalGames <= 0 ? 0.5 : result.playerGames / totalGames);
+    outcomes.push({ weight, expectedScore, actualScore, impact });
+
+    if (matchWeight <= 0) continue;
+
+    diffSum += matchWeight * impact * (actualScore - expectedScore);
+    varianceInvSum += matchWeight * impact ** 2 * expectedScore * (1.0 - expectedScore);
+    unweightedInvSum += impact ** 2 * expectedScore * (1.0 - expectedScore);
+  }
+
+  if (unweightedInvSum <= 0) {
+    // No weighted results this period: return the original rating
+    return { rating: playerRating, outcomes, variance: null, sigmaSolver: null };
+  }
+
+  // 2. Variance (v) for the sigma step, clamped to prevent instability with extreme expected scores
+  const variance = Math.min(1.0 / unweightedInvSum, 1e6);
+
+  // 3. Determine new sigma once for the whole period
+  const { sigma: newSigma, status: sigmaSolver } = determineSigma(player_g2.phi, player_g2.sigma, diffSum, variance, config.tau);
+  if (!sigmaSolver.converged) {
+    rootLogger.warn('determineSigma did not converge', { ...sigmaSolver, sigma: newSigma });
+  }
+
+  // 4. Calculate updated phi* (pre-update RD)
+  const phi_star = Math.sqrt(player_g2.phi ** 2 + newSigma ** 2);
+
+  // 5. Calculate new phi and mu
+  const newPhi_g2 = 1.0 / Math.sqrt((1.0 / phi_star ** 2) + varianceInvSum);
+  const newMu_g2 = player_g2.mu + newPhi_g2 ** 2 * diffSum;
+
+  // 6. Scale back up
+  return { rating: scaleUp({ mu: newMu_g2, phi: newPhi_g2, sigma: newSigma }), outcomes, variance, sigmaSolver };
+}
+
+/**
+ * Glicko-2 rating period update for one player over any number of results.
+ * The variance and difference terms are summed across all weighted results
+ * before `determineSigma` runs once, as the Glicko-2 paper intends.
+ * Opponent ratings are taken as they were at the start of the period.
+ */
+export function calculateRatingPeriodUpdate(
+  playerRating: PlayerRating,
+  results: RatingPeriodResult[],
+  config: GlickoTRConfig = DEFAULT_CONFIG
+): PlayerRating {
+  return ratePeriod(playerRating, results, config).rating;
+}
+
+/**
+ * Expected score (share of games) for the player against the opponent,
+ * exactly as used in a rating update.
+ */
+export function calculateExpectedScore(
+  playerRating: PlayerRating,
+  opponentRating: PlayerRating,
+  config: GlickoTRConfig = DEFAULT_CONFIG
+): number {
+  const player_g2 = scaleDown(playerRating);
+  const opponent_g2 = scaleDown(opponentRating);
+  return expectScore(player_g2, opponent_g2, reduceImpact(opponent_g2), config.clampEpsilon);
+}
+
+/** One side's view of a match in the detailed breakdown. */
+export interface SideBreakdown {
+  expectedScore: number;
+  actualScore: number;
+  impact: number;          // g(phi) of the other side
+  variance: number | null; // v used for the sigma step; null when the match had no weight
+  sigmaBefore: number;
+  sigmaAfter: number;
+  sigmaSolver: SigmaSolverStatus | null; // How the volatility step ended; null when the match had no weight
+}
+
+/** Explanation of how a single match changed both ratings. */
+export interface MatchBreakdown {
+  weight: WeightBreakdown;
+  player: SideBreakdown;
+  opponent: SideBreakdown;
+}
+
+/** New ratings for both sides of a match, plus the values that produced them. */
+export interface GlickoTRUpdateResult {
+  player_new: PlayerRating;
+  opponent_new: PlayerRating;
+  match_weight: number;
+  player_outcome: ResultOutcome;
+  opponent_outcome: ResultOutcome;
+  breakdown?: MatchBreakdown; // Only present when requested with `{ detailed: true }`
+}
 
 /**
  * Main calculation function for a single 1v1 match result.
- * This adapts the logic from the `rate` method in the Python script for a single match.
+ * This is the one-result special case of `calculateRatingPeriodUpdate`,
+ * applied to each side using both players' pre-match ratings.
+ * `actualScore` is the player's S from a score model (the opponent's is
+ * 1 - S); without it S is the share of games. The game counts still drive
+ * the match weight either way.
  */
 export function calculateGlickoTRUpdate(
   playerRating: PlayerRating,
@@ -273,105 +572,222 @@ export function calculateGlickoTRUpdate(
   playerGames: number,
   opponentGames: number,
   status: string, // e.g., 'completed', 'retired', 'walkover' - this is the overall status of the event
-  eventCategory: string,   // standard_match or tiebreak_event
-  isPublicEvent: boolean  
-): { player_new: PlayerRating, opponent_new: PlayerRating } {
-
-  // 1. Calculate Match Weight
-  const matchWeight = calculateMatchWeight(
-    status, 
-    playerGames, 
-    opponentGames, 
-    eventCategory, 
-    isPublicEvent
-  );
+  eventCategory: string,   // A category registered in the config, e.g. standard_match or tiebreak_event
+  isPublicEvent: boolean,
+  options: { detailed?: boolean, config?: GlickoTRConfig, actualScore?: number } = {}
+): GlickoTRUpdateResult {
+  const config = options.config ?? DEFAULT_CONFIG;
+
+  const playerSide = ratePeriod(playerRating, [{
+    opponentRating,
+    playerGames,
+    opponentGames,
+    status,
+    eventCategory,
+    isPublicEvent,
+    actualScore: options.actualScore,
+  }], config);
+
+  const opponentSide = ratePeriod(opponentRating, [{
+    opponentRating: playerRating,
+    playerGames: opponentGames,
+    opponentGames: playerGames,
+    status,
+    eventCategory,
+    isPublicEvent,
+    actualScore: options.actualScore === undefined ? undefined : 1 - options.actualScore,
+  }], config);
+
+  const player_outcome = playerSide.outcomes[0];
+  const opponent_outcome = opponentSide.outcomes[0];
+
+  const result: GlickoTRUpdateResult = {
+    player_new: playerSide.rating,
+    opponent_new: opponentSide.rating,
+    match_weight: player_outcome.weight.matchWeight,
+    player_outcome,
+    opponent_outcome,
+  };
 
-  if (matchWeight <= 0) {
-    // Return original ratings, potentially applying RD increase separately if needed later
-    return { player_new: playerRating, opponent_new: opponentRating };
+  if (options.detailed) {
+    result.breakdown = {
+      weight: player_outcome.weight,
+      player: {
+        expectedScore: player_outcome.expectedScore,
+        actualScore: player_outcome.actualScore,
+        impact: player_outcome.impact,
+        variance: playerSide.variance,
+        sigmaBefore: playerRating.sigma,
+        sigmaAfter: playerSide.rating.sigma,
+        sigmaSolver: playerSide.sigmaSolver,
+      },
+      opponent: {
+        expectedScore: opponent_outcome.expectedScore,
+        actualScore: opponent_outcome.actualScore,
+        impact: opponent_outcome.impact,
+        variance: opponentSide.variance,
+        sigmaBefore: opponentRating.sigma,
+        sigmaAfter: opponentSide.rating.sigma,
+        sigmaSolver: opponentSide.sigmaSolver,
+      },
+    };
   }
 
-  // 2. Scale ratings down
-  const player_g2 = scaleDown(playerRating);
-  const opponent_g2 = scaleDown(opponentRating);
+  return result;
+}
+
+/** A doubles team: two partners' individual ratings. */
+export type TeamRatings = [PlayerRating, PlayerRating];
+
+/** New ratings for all four players of a doubles match, plus the team-level result. */
+export interface DoublesUpdateResult {
+  team1_new: TeamRatings;
+  team2_new: TeamRatings;
+  team_result: GlickoTRUpdateResult; // The update computed between the two composite ratings
+}
 
-  // === Calculations for Player ===
-
-  // 3. Calculate impact, E, S for player's perspective
-  const impactPlayer = reduceImpact(opponent_g2);
-  const expectedScorePlayer = expectScore(player_g2, opponent_g2, impactPlayer);
-  const totalGames = playerGames + opponentGames;
-  const actualScorePlayer = totalGames <= 0 ? 0.5 : playerGames / totalGames;
-
-  // 4. Calculate variance (v) and difference term g*(S-E) for player perspective
-  const variancePlayer = 1.0 / (impactPlayer ** 2 * expectedScorePlayer * (1.0 - expectedScorePlayer));
-  // Clamp variance to prevent instability with extreme expected scores
-  const clampedVariancePlayer = Math.min(variancePlayer, 1e6);
-  // The difference term used in the mu update (Step 7 formula: mu' = mu + phi'^2 * sum[g*(S-E)])
-  const diffTermPlayer = matchWeight * impactPlayer * (actualScorePlayer - expectedScorePlayer);
-  // The variance term used in the sigma update (Step 5: determineSigma takes v)
-  const varianceForSigmaPlayer = clampedVariancePlayer; // v for the opponent
-  // The variance inverse term used in the phi update (Step 7 formula: phi' = 1/sqrt(1/phi*^2 + 1/v))
-  // 1/v = g^2 * E * (1-E). We need the weighted version.
-  const varianceInvTermPlayer = matchWeight * impactPlayer ** 2 * expectedScorePlayer * (1.0 - expectedScorePlayer);
-
-
-  // 5. Determine new sigma for player
-  const newSigmaPlayer = determineSigma(player_g2, diffTermPlayer, varianceForSigmaPlayer);
-
-  // 6. Calculate updated phi* (pre-update RD) for player
-  const phi_star_player = Math.sqrt(player_g2.phi ** 2 + newSigmaPlayer ** 2);
-
-  // 7. Calculate new phi and mu for player (using corrected variance term)
-  const newPhiPlayer_g2 = 1.0 / Math.sqrt((1.0 / phi_star_player ** 2) + varianceInvTermPlayer);
-  const newMuPlayer_g2 = player_g2.mu + newPhiPlayer_g2 ** 2 * diffTermPlayer;
-
-  // 8. Create updated player rating on Glicko-2 scale
-  const updatedPlayer_g2: Glicko2Rating = { 
-      mu: newMuPlayer_g2,
-      phi: newPhiPlayer_g2,
-      sigma: newSigmaPlayer
+/**
+ * Composite rating for a team: mean mu and sigma, and the root mean square of
+ * the partners' phi, so one uncertain partner keeps the team uncertain.
+ */
+export function teamCompositeRating(team: TeamRatings): PlayerRating {
+  const [a, b] = team;
+  return {
+    mu: (a.mu + b.mu) / 2,
+    phi: Math.sqrt((a.phi ** 2 + b.phi ** 2) / 2),
+    sigma: (a.sigma + b.sigma) / 2,
   };
+}
 
-  // === Calculations for Opponent ===
+/**
+ * Spreads a team's rating change over its two partners. Each partner's share
+ * of the mu change is proportional to their own phi^2 (the two shares average
+ * to 1), so the less certain partner moves more. Phi and sigma change by the
+ * same ratio as the team's.
+ */
+function distributeTeamUpdate(team: TeamRatings, before: PlayerRating, after: PlayerRating): TeamRatings {
+  const before_g2 = scaleDown(before);
+  const after_g2 = scaleDown(after);
+  const deltaMu_g2 = after_g2.mu - before_g2.mu;
+  const phiRatio = after.phi / before.phi;
+  const sigmaRatio = after.sigma / before.sigma;
+  const phiSquaredSum = team[0].phi ** 2 + team[1].phi ** 2;
+
+  return team.map((partner) => {
+    const partner_g2 = scaleDown(partner);
+    const share = phiSquaredSum > 0 ? (2 * partner.phi ** 2) / phiSquaredSum : 1.0;
+    return scaleUp({
+      mu: partner_g2.mu + deltaMu_g2 * share,
+      phi: partner_g2.phi * phiRatio,
+      sigma: partner.sigma * sigmaRatio,
+    });
+  }) as TeamRatings;
+}
 
-  // 3. Calculate impact, E, S for opponent's perspective
-  const impactOpponent = reduceImpact(player_g2);
-  const expectedScoreOpponent = expectScore(opponent_g2, player_g2, impactOpponent);
-  const actualScoreOpponent = 1.0 - actualScorePlayer;
+/**
+ * Rates a doubles match by forming a composite rating for each team, rating the
+ * teams' score (team 1's `actualScore`, or its game share) against each other,
+ * and distributing each team's change to its partners weighted by their own phi.
+ */
+export function calculateDoublesUpdate(
+  team1: TeamRatings,
+  team2: TeamRatings,
+  team1Games: number,
+  team2Games: number,
+  status: string,
+  eventCategory: string,
+  isPublicEvent: boolean,
+  options: { detailed?: boolean, config?: GlickoTRConfig, actualScore?: number } = {}
+): DoublesUpdateResult {
+  const team1Composite = teamCompositeRating(team1);
+  const team2Composite = teamCompositeRating(team2);
+
+  const team_result = calculateGlickoTRUpdate(
+    team1Composite,
+    team2Composite,
+    team1Games,
+    team2Games,
+    status,
+    eventCategory,
+    isPublicEvent,
+    options
+  );
 
-  // 4. Calculate variance (v) and difference term g*(S-E) for opponent perspective
-  const varianceOpponent = 1.0 / (impactOpponent ** 2 * expectedScoreOpponent * (1.0 - expectedScoreOpponent));
-  const clampedVarianceOpponent = Math.min(varianceOpponent, 1e6);
-  const diffTermOpponent = matchWeight * impactOpponent * (actualScoreOpponent - expectedScoreOpponent);
-  const varianceForSigmaOpponent = clampedVarianceOpponent;
-  const varianceInvTermOpponent = matchWeight * impactOpponent ** 2 * expectedScoreOpponent * (1.0 - expectedScoreOpponent);
+  if (team_result.match_weight <= 0) {
+    // The match had no weight: nobody moves
+    return { team1_new: team1, team2_new: team2, team_result };
+  }
 
-  // 5. Determine new sigma for opponent
-  const newSigmaOpponent = determineSigma(opponent_g2, diffTermOpponent, varianceForSigmaOpponent);
+  return {
+    team1_new: distributeTeamUpdate(team1, team1Composite, team_result.player_new),
+    team2_new: distributeTeamUpdate(team2, team2Composite, team_result.opponent_new),
+    team_result,
+  };
+}
 
-  // 6. Calculate updated phi* for opponent
-  const phi_star_opponent = Math.sqrt(opponent_g2.phi ** 2 + newSigmaOpponent ** 2);
+/** Length of one rating period in milliseconds. */
+export function ratingPeriodMs(config: GlickoTRConfig = DEFAULT_CONFIG): number {
+  return config.ratingPeriodDays * 24 * 60 * 60 * 1000;
+}
 
-  // 7. Calculate new phi and mu for opponent
-  const newPhiOpponent_g2 = 1.0 / Math.sqrt((1.0 / phi_star_opponent ** 2) + varianceInvTermOpponent);
-  const newMuOpponent_g2 = opponent_g2.mu + newPhiOpponent_g2 ** 2 * diffTermOpponent;
+/**
+ * Number of whole rating periods elapsed between two timestamps (never negative).
+ */
+export function elapsedRatingPeriods(from: Date, to: Date, config: GlickoTRConfig = DEFAULT_CONFIG): number {
+  const periodMs = ratingPeriodMs(config);
+  const elapsedMs = to.getTime() - from.getTime();
+  if (!isFinite(elapsedMs) || elapsedMs <= 0) return 0;
+  return Math.floor(elapsedMs / periodMs);
+}
 
-  // 8. Create updated opponent rating on Glicko-2 scale
-  const updatedOpponent_g2: Glicko2Rating = { 
-      mu: newMuOpponent_g2,
-      phi: newPhiOpponent_g2,
-      sigma: newSigmaOpponent 
-  };
+/**
+ * Glicko-2 inactivity step: grows phi by sqrt(phi^2 + sigma^2) for each elapsed
+ * rating period without games, capped at the config's default phi. Ratings already above the
+ * cap are left as they are. Mu and sigma are unchanged.
+ */
+export function applyInactivityDecay(
+  rating: PlayerRating,
+  periods: number,
+  config: GlickoTRConfig = DEFAULT_CONFIG
+): PlayerRating {
+  if (periods <= 0 || rating.phi >= config.defaultPhi) {
+    return rating;
+  }
+  const rating_g2 = scaleDown(rating);
+  // Applying the step k times in a row is equivalent to adding k * sigma^2 once
+  const inflatedPhi_g2 = Math.sqrt(rating_g2.phi ** 2 + periods * rating_g2.sigma ** 2);
+  const phi = Math.min(inflatedPhi_g2 * SCALING_FACTOR, config.defaultPhi);
+  return { mu: rating.mu, phi: phi, sigma: rating.sigma };
+}
 
-  // 9. Scale both new ratings back up
-  const finalPlayerRating = scaleUp(updatedPlayer_g2);
-  const finalOpponentRating = scaleUp(updatedOpponent_g2);
+/**
+ * Conservative rating for rankings: mu - k * phi, a value the player's true
+ * strength is very likely above. Computed on the Glicko-2 scale and converted
+ * back, so it is clamped like any other rating.
+ */
+export function conservativeRating(rating: PlayerRating, k = 2): number {
+  const rating_g2 = scaleDown(rating);
+  return scaleUp({ mu: rating_g2.mu - k * rating_g2.phi, phi: rating_g2.phi, sigma: rating_g2.sigma }).mu;
+}
 
-  return { player_new: finalPlayerRating, opponent_new: finalOpponentRating };
+/**
+ * Overall rating blended from a player's pool ratings, each weighted by
+ * 1 / phi^2 so the pools the player is most certain in count most. Phi is
+ * sqrt(n / sum(1 / phi^2)), which always lies between the smallest and largest
+ * pool phi. Returns null when there are no pool ratings.
+ */
+export function blendRatings(ratings: PlayerRating[]): PlayerRating | null {
+  if (ratings.length === 0) return null;
+  const weights = ratings.map((r) => 1 / r.phi ** 2);
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+  return {
+    mu: ratings.reduce((sum, r, i) => sum + weights[i] * r.mu, 0) / weightSum,
+    phi: Math.sqrt(ratings.length / weightSum),
+    sigma: ratings.reduce((sum, r, i) => sum + weights[i] * r.sigma, 0) / weightSum,
+  };
 }
 
 // --- Optional: Add helper for default rating creation ---
-export function createDefaultRating(): PlayerRating {
-    return { mu: DEFAULT_MU, phi: DEFAULT_PHI, sigma: DEFAULT_SIGMA };
+export function createDefaultRating(config: GlickoTRConfig = DEFAULT_CONFIG): PlayerRating {
+    return { mu: DEFAULT_MU, phi: config.defaultPhi, sigma: config.defaultSigma };
 } 
\ No newline at end of file
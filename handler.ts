@@ -0,0 +1,340 @@
+/**
+ * Request Handler
+ *
+ * Routes and handles every request to the function. Kept apart from the
+ * `serve` call in index.ts so tests can drive it with an in-memory Supabase
+ * client instead of a live project.
+ */
+
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.8'
+import { corsHeaders } from '../_shared/cors.ts' // Assuming shared CORS headers
+import {
+    MatchData,
+    MATCH_COLUMNS,
+    RateMatchResult,
+    hasRequiredScoreData,
+    assertKnownEventCategory,
+    assertValidPlayers,
+    fetchRatedResult,
+    matchPlayerIds,
+    rateMatch
+} from './processing.ts'
+import { BatchRequest, processBatch, validateBatchRequest } from './batch.ts'
+import { runDecaySweep } from './decay.ts'
+import { createConfigResolver, loadEnvConfig } from './config.ts'
+import { RecomputeRequest, recomputeRatings } from './recompute.ts'
+import { PredictRequest, predictMatch, validatePredictRequest } from './predict.ts'
+import { LeaderboardRequest, buildLeaderboard, validateLeaderboardRequest } from './leaderboard.ts'
+import { isWebhookPayload, verifyWebhookSecret, webhookMatchId } from './webhook.ts'
+import { RollbackRequest, rollbackMatch, validateRollbackRequest } from './rollback.ts'
+import { SeedRequest, seedPlayerRating, validateSeedRequest } from './seed.ts'
+import { Caller, WEBHOOK_CALLER, assertCanRateMatch, authenticate, requireAdmin } from './auth.ts'
+import { assertValidScore } from './validation.ts'
+import {
+    ApiError,
+    DatabaseError,
+    InvalidBodyError,
+    InvalidMatchError,
+    MatchNotConfirmedError,
+    MatchNotFoundError,
+    NO_ROWS_CODE,
+    errorEnvelope,
+    toApiError
+} from './errors.ts'
+import { LogSink, Logger, createLogger } from './logger.ts'
+import { diagnosticsEnabled, runDiagnostics } from './diagnostics.ts'
+
+/** Header carrying the request's correlation ID; echoed on every response. */
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// A caller-supplied correlation ID is only reused if it is short and plain
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/** Returns the sub-route after the function name, e.g. 'batch' for /glicko-update/batch. */
+function getRoute(req: Request): string {
+    const segments = new URL(req.url).pathname.split('/').filter(Boolean);
+    const fnIndex = segments.indexOf('glicko-update');
+    return segments.slice(fnIndex + 1).join('/');
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), {
+        status: status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+}
+
+function errorResponse(error: ApiError, requestId: string): Response {
+    return jsonResponse(errorEnvelope(error, requestId), error.status);
+}
+
+const OUTCOME_MESSAGES: Record<RateMatchResult['outcome'], string> = {
+    rated: 'Ratings updated',
+    conflict_retried: 'Ratings updated after a rating version conflict',
+    already_rated: 'Ratings already updated',
+};
+
+function ratingResponse(matchId: string, result: RateMatchResult, explain: boolean): Response {
+    return jsonResponse({
+        success: true,
+        outcome: result.outcome,
+        message: `${OUTCOME_MESSAGES[result.outcome]} for match ${matchId}`,
+        attempts: result.attempts,
+        configVersion: result.configVersion,
+        pool: result.history[0]?.pool ?? null,
+        scoreModel: result.history[0]?.score_model ?? null,
+        history: result.history,
+        ...(explain && result.update ? { breakdown: result.update.breakdown } : {}),
+    });
+}
+
+/** The caller's correlation ID if it is usable, otherwise a new one. */
+function requestIdFor(req: Request): string {
+    const provided = req.headers.get(REQUEST_ID_HEADER);
+    return provided && REQUEST_ID_PATTERN.test(provided) ? provided : crypto.randomUUID();
+}
+
+/** Creates the Supabase client a request works with. */
+export type ClientFactory = () => SupabaseClient;
+
+export interface HandlerOptions {
+    logSink?: LogSink; // Where log lines go; defaults to the console
+}
+
+/** The service role client used in production. */
+export function createAdminClient(): SupabaseClient {
+    // Initialize Supabase Admin Client using corrected env var names
+    const supabaseUrl = Deno.env.get('PROJECT_URL') ?? ''; // Provide fallback in local dev
+    const serviceKey = Deno.env.get('SERVICE_ROLE_KEY') ?? ''; // Provide fallback - less secure
+
+    return createClient(
+        supabaseUrl, 
+        serviceKey, 
+        { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+}
+
+/**
+ * Builds the request handler around the given client factory. Every request
+ * gets a correlation ID, taken from the `x-request-id` header when present,
+ * which is returned in the same header and added to each of its log lines.
+ */
+export function createHandler(
+    createSupabaseClient: ClientFactory = createAdminClient,
+    options: HandlerOptions = {}
+): (req: Request) => Promise<Response> {
+    return async (req: Request) => {
+        // Handle CORS preflight requests
+        if (req.method === 'OPTIONS') {
+            return new Response('ok', { headers: corsHeaders });
+        }
+
+        const requestId = requestIdFor(req);
+        const route = getRoute(req);
+        const log = createLogger({ sink: options.logSink, fields: { requestId, route: route || 'match' } });
+        const started = performance.now();
+
+        const response = await handleRequest(req, route, requestId, createSupabaseClient, log);
+        response.headers.set(REQUEST_ID_HEADER, requestId);
+        log.info('Request completed', {
+            method: req.method,
+            status: response.status,
+            durationMs: Math.round(performance.now() - started),
+            timings: log.timings(),
+        });
+        return response;
+    };
+}
+
+/** Routes one request and turns any error into the JSON error envelope. */
+async function handleRequest(
+    req: Request,
+    route: string,
+    requestId: string,
+    createSupabaseClient: ClientFactory,
+    log: Logger
+): Promise<Response> {
+    let matchId: string | null = null;
+    try {
+        // --- Health: opt-in database and config check, never reports secret values ---
+        if (route === 'health') {
+            if (!diagnosticsEnabled()) {
+                return errorResponse(new ApiError('not_found', 'The health route is not enabled.'), requestId);
+            }
+            const diagnostics = await runDiagnostics(createSupabaseClient());
+            return jsonResponse(diagnostics, diagnostics.status === 'ok' ? 200 : 503);
+        }
+
+        if (req.method !== 'POST') {
+            return errorResponse(new ApiError('method_not_allowed', 'Method Not Allowed', { method: req.method }), requestId);
+        }
+
+        let body;
+        try {
+            body = await req.json();
+        } catch {
+            throw new InvalidBodyError('Request body is not valid JSON');
+        }
+        if (!body || typeof body !== 'object' || Array.isArray(body)) {
+            throw new InvalidBodyError('Request body must be a JSON object');
+        }
+
+        // Database Webhook calls must prove the shared secret; every other caller is authenticated
+        const isWebhook = isWebhookPayload(body);
+        let caller: Caller;
+        if (isWebhook) {
+            verifyWebhookSecret(req);
+            caller = WEBHOOK_CALLER;
+        } else {
+            caller = await authenticate(req);
+        }
+        log = log.child({ callerRole: caller.role, callerId: caller.userId });
+
+        const supabaseAdmin = createSupabaseClient();
+
+        // --- Batch Mode: rate many matches in chronological order ---
+        if (route === 'batch') {
+            requireAdmin(caller, 'batch rating');
+            const validationError = validateBatchRequest(body as BatchRequest);
+            if (validationError) {
+                throw new InvalidBodyError(`Missing or invalid batch parameters: ${validationError}`, { reason: validationError });
+            }
+            const batchResult = await processBatch(supabaseAdmin, body as BatchRequest, log);
+            log.info('Batch processed', { summary: batchResult.summary });
+            return jsonResponse(batchResult);
+        }
+
+        // --- Decay Sweep: grow phi for all inactive players ---
+        if (route === 'decay') {
+            requireAdmin(caller, 'the decay sweep');
+            const asOf = body.asOf ? new Date(body.asOf) : new Date();
+            if (isNaN(asOf.getTime())) {
+                throw new InvalidBodyError(`Missing or invalid asOf timestamp: ${body.asOf}`, { parameter: 'asOf' });
+            }
+            const sweepResult = await runDecaySweep(supabaseAdmin, asOf, loadEnvConfig());
+            log.info('Decay sweep completed', { decayed: sweepResult.decayed, scanned: sweepResult.scanned });
+            return jsonResponse(sweepResult);
+        }
+
+        // --- Predict: read-only expected score and projected ratings ---
+        if (route === 'predict') {
+            const validationError = validatePredictRequest(body as PredictRequest);
+            if (validationError) {
+                throw new InvalidBodyError(`Missing or invalid prediction parameters: ${validationError}`, { reason: validationError });
+            }
+            return jsonResponse(await predictMatch(supabaseAdmin, body as PredictRequest));
+        }
+
+        // --- Leaderboard: read-only ranking by conservative rating ---
+        if (route === 'leaderboard') {
+            const validationError = validateLeaderboardRequest(body as LeaderboardRequest);
+            if (validationError) {
+                throw new InvalidBodyError(`Missing or invalid leaderboard parameters: ${validationError}`, { reason: validationError });
+            }
+            return jsonResponse(await buildLeaderboard(supabaseAdmin, body as LeaderboardRequest));
+        }
+
+        // --- Recompute: replay rated matches from default ratings after a correction ---
+        if (route === 'recompute') {
+            requireAdmin(caller, 'recompute');
+            const recomputeResult = await recomputeRatings(supabaseAdmin, body as RecomputeRequest);
+            log.info('Recompute completed', { dryRun: recomputeResult.dryRun, changedProfiles: recomputeResult.changes.length });
+            return jsonResponse(recomputeResult);
+        }
+
+        // --- Rollback: admin-only revert of a single rated match ---
+        if (route === 'rollback') {
+            requireAdmin(caller, 'rollback');
+            const validationError = validateRollbackRequest(body as RollbackRequest);
+            if (validationError) {
+                throw new InvalidBodyError(`Missing or invalid rollback parameters: ${validationError}`, { reason: validationError });
+            }
+            const rollbackResult = await rollbackMatch(supabaseAdmin, body as RollbackRequest);
+            log.info('Rollback completed', { matchId: rollbackResult.matchId, mode: rollbackResult.mode, dryRun: rollbackResult.dryRun });
+            // A rollback that needs a replay the caller did not allow changes nothing
+            return jsonResponse(rollbackResult, rollbackResult.mode === 'replay_required' ? 409 : 200);
+        }
+
+        // --- Seed: admin-only starting rating from a reported level, or an explicit override ---
+        if (route === 'seed') {
+            requireAdmin(caller, 'rating seeding');
+            const validationError = validateSeedRequest(body as SeedRequest);
+            if (validationError) {
+                throw new InvalidBodyError(`Missing or invalid seed parameters: ${validationError}`, { reason: validationError });
+            }
+            const seedResult = await seedPlayerRating(supabaseAdmin, body as SeedRequest, caller);
+            log.info('Player rating seeded', { playerId: seedResult.playerId, mode: seedResult.mode, dryRun: seedResult.dryRun });
+            return jsonResponse(seedResult);
+        }
+
+        if (isWebhook) {
+            const event = webhookMatchId(body);
+            if (!event.matchId) {
+                log.info('Webhook event ignored', { reason: event.reason });
+                return jsonResponse({ success: true, ignored: true, message: event.reason });
+            }
+            matchId = event.matchId;
+        } else {
+            matchId = body.matchId;
+        }
+        if (typeof matchId !== 'string' || !matchId) {
+            throw new InvalidBodyError('Missing matchId in request body', { parameter: 'matchId' });
+        }
+
+        const matchLog = log.child({ matchId });
+
+        // --- 1. Fetch Match Data --- 
+        const { data: matchData, error: matchError } = await matchLog.time('fetch_match', () => supabaseAdmin
+            .from('matches')
+            .select(MATCH_COLUMNS)
+            .eq('id', matchId)
+            .single<MatchData>());
+
+        if (matchError && matchError.code !== NO_ROWS_CODE) {
+            throw new DatabaseError('Match fetch', matchError);
+        }
+        if (!matchData) throw new MatchNotFoundError(matchId);
+        // Players may only have their own matches rated, or read back their stored result
+        assertCanRateMatch(caller, matchId, matchPlayerIds(matchData));
+        // Callers can ask for the full calculation breakdown with `explain: true`
+        const explain = body.explain === true;
+
+        // A retried request for a rated match gets the original result back
+        if (matchData.rating_updated_at) {
+            matchLog.info('Match already rated, returning stored result', { ratedAt: matchData.rating_updated_at });
+            return ratingResponse(matchId, await fetchRatedResult(supabaseAdmin, matchId), explain);
+        }
+
+        // --- 2. Validate Match Status --- 
+        // Expecting this function to be called *after* status is set to confirmed
+        if (matchData.status !== 'confirmed') {
+            throw new MatchNotConfirmedError(matchId, matchData.status);
+        }
+        if (!hasRequiredScoreData(matchData)) {
+            throw new InvalidMatchError(matchId, `Match ${matchId} is missing required score data (winner_id, sets).`);
+        }
+        assertValidPlayers(matchData);
+        const playerLog = matchLog.child({ playerIds: matchPlayerIds(matchData) });
+        const config = await createConfigResolver(supabaseAdmin)({ leagueId: matchData.league_id, seasonId: matchData.season_id });
+        assertKnownEventCategory(matchData, config);
+        assertValidScore(matchData, config);
+
+        // --- 3-7. Fetch Profiles, Calculate and Write via RPC, Retrying on Version Conflicts --- 
+        const result = await rateMatch(supabaseAdmin, matchData, config, { detailed: explain, log: playerLog });
+
+        // --- 8. Return Success --- 
+        playerLog.info('Match rated', { outcome: result.outcome, attempts: result.attempts, configVersion: result.configVersion });
+        return ratingResponse(matchId, result, explain);
+
+    } catch (error) {
+        const apiError = toApiError(error);
+        // Caller errors are warnings; anything else is a failure of the function
+        if (apiError.status >= 500) {
+            // Unexpected errors are reported without their message, so log it in full here
+            log.error('Request failed', { matchId, code: apiError.code, error: error instanceof Error ? error.message : String(error), details: apiError.details });
+        } else {
+            log.warn('Request failed', { matchId, code: apiError.code, error: apiError.message, details: apiError.details });
+        }
+        return errorResponse(apiError, requestId);
+    }
+}
@@ -6,239 +6,12 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts"
 
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
-import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.8'
-import { corsHeaders } from '../_shared/cors.ts' // Assuming shared CORS headers
-import {
-    PlayerRating,
-    calculateGlickoTRUpdate
-} from './glicko.ts' // Import the calculation logic
+import { createHandler } from './handler.ts'
+import { rootLogger } from './logger.ts'
 
-interface MatchData {
-    id: string;
-    player1_id: string;
-    player2_id: string;
-    score: {
-        sets: { p1: number, p2: number }[];
-        winner_id: string;
-        retired_player_id?: string | null;
-        // Ensure score payload also includes player IDs for clarity, though we use table cols here
-        player1_id?: string; 
-        player2_id?: string; 
-    };
-    status: string;
-    event_category: string;
-    is_public_event: boolean;
-}
+rootLogger.info(`Function 'glicko-update' up and running!`);
 
-interface ProfileData {
-    id: string;
-    rating_mu: number;
-    rating_phi: number;
-    rating_sigma: number;
-    wins: number;
-    losses: number;
-}
-
-console.log(`Function 'glicko-update' up and running!`);
-
-serve(async (req: Request) => {
-    // Handle CORS preflight requests
-    if (req.method === 'OPTIONS') {
-        return new Response('ok', { headers: corsHeaders });
-    }
-
-    let matchId: string | null = null;
-    try {
-        if (req.method !== 'POST') {
-            return new Response(JSON.stringify({ error: 'Method Not Allowed' }), {
-                status: 405,
-                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            });
-        }
-
-        const body = await req.json();
-        matchId = body.matchId;
-        if (!matchId) {
-            throw new Error('Missing matchId in request body');
-        }
-
-        // Initialize Supabase Admin Client using corrected env var names
-        const supabaseUrl = Deno.env.get('PROJECT_URL') ?? ''; // Provide fallback in local dev
-        const serviceKey = Deno.env.get('SERVICE_ROLE_KEY') ?? ''; // Provide fallback - less secure
-        
-        console.log(`DEBUG: Using Supabase URL: ${supabaseUrl}`); // Add log
-        console.log(`DEBUG: Service Key starts with: ${serviceKey.substring(0, 5)}...`); // Add log (don't log full key)
-
-        const supabaseAdmin: SupabaseClient = createClient(
-            supabaseUrl, 
-            serviceKey, 
-            { auth: { autoRefreshToken: false, persistSession: false } }
-        );
-
-        // --- Direct Deno Fetch Test ---
-        try {
-            const directFetchUrl = `${supabaseUrl}/rest/v1/matches?select=id&id=eq.${matchId}`;
-            console.log(`DEBUG: Direct Deno fetch test to URL: ${directFetchUrl}`);
-            const directResponse = await fetch(directFetchUrl, {
-                method: 'GET',
-                headers: {
-                    'apikey': serviceKey,
-                    'Authorization': `Bearer ${serviceKey}`,
-                    'Content-Type': 'application/json'
-                }
-            });
-            console.log(`DEBUG: Direct Deno fetch status: ${directResponse.status}`);
-            const directData = await directResponse.json();
-            console.log(`DEBUG: Direct Deno fetch data:`, JSON.stringify(directData, null, 2));
-            if (!directResponse.ok) {
-                 console.error(`DEBUG: Direct Deno fetch error: Status ${directResponse.status}`, directData);
-            }
-        } catch (e) {
-            console.error(`DEBUG: Direct Deno fetch EXCEPTION:`, e);
-        }
-
-        // --- 1. Fetch Match Data --- 
-        console.log(`DEBUG: Attempting to fetch match with ID: ${matchId}`); // Log before the call
-        console.log(`DEBUG: supabaseAdmin object initialized: ${!!supabaseAdmin}`); // Check if client is not null/undefined
-        console.log(`DEBUG: supabaseAdmin.from('matches').select(...).eq('id', matchId).single()`); // Log the structure of the call
-
-        // --- 1. Fetch Match Data --- 
-        const { data: matchData, error: matchError } = await supabaseAdmin
-            .from('matches')
-            .select('id, player1_id, player2_id, score, status, event_category, is_public_event')
-            .eq('id', matchId)
-            .single<MatchData>();
-
-        // This is where your current error points
-        if (matchError) {
-            console.error(`DEBUG: Match fetch error object:`, JSON.stringify(matchError, null, 2)); // Log the full error object
-            throw new Error(`Match fetch error: ${matchError.message}`);
-        }
-        if (!matchData) throw new Error(`Match with ID ${matchId} not found.`);
-
-        // --- 2. Validate Match Status --- 
-        // Expecting this function to be called *after* status is set to confirmed
-        if (matchData.status !== 'confirmed') {
-             console.warn(`Match ${matchId} status is '${matchData.status}', expected 'confirmed'. Rating update skipped.`);
-             // Still return success as the trigger might be okay, but no update needed now.
-             return new Response(JSON.stringify({ message: 'Match status not confirmed, update skipped.' }), {
-                status: 200, 
-                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            });
-        }
-        if (!matchData.score || !matchData.score.winner_id || !matchData.score.sets) {
-            throw new Error(`Match ${matchId} is missing required score data (winner_id, sets).`);
-        }
-
-        // --- 3. Fetch Player Profiles --- 
-        const playerIds = [matchData.player1_id, matchData.player2_id];
-        const { data: profilesData, error: profileError } = await supabaseAdmin
-            .from('profiles')
-            .select('id, rating_mu, rating_phi, rating_sigma, wins, losses')
-            .in('id', playerIds)
-            .limit(2);
-        
-        if (profileError) throw new Error(`Profile fetch error: ${profileError.message}`);
-        if (!profilesData || profilesData.length !== 2) {
-            throw new Error(`Could not find both player profiles for IDs: ${playerIds.join(', ')}`);
-        }
-
-        // --- 4. Prepare Data for GlickoTR Calculation --- 
-        const player1Profile = profilesData.find((p: ProfileData) => p.id === matchData.player1_id)!;
-        const player2Profile = profilesData.find((p: ProfileData) => p.id === matchData.player2_id)!;
-
-        const player1Rating: PlayerRating = {
-            mu: player1Profile.rating_mu,
-            phi: player1Profile.rating_phi,
-            sigma: player1Profile.rating_sigma,
-        };
-        const player2Rating: PlayerRating = {
-            mu: player2Profile.rating_mu,
-            phi: player2Profile.rating_phi,
-            sigma: player2Profile.rating_sigma,
-        };
-
-        // Calculate total games for each player from score.sets
-        // Assumes score.sets p1 corresponds to matchData.player1_id
-        let player1GamesWon = 0;
-        let player2GamesWon = 0;
-        for (const set of matchData.score.sets) {
-            player1GamesWon += set.p1 || 0;
-            player2GamesWon += set.p2 || 0;
-        }
-
-        // Determine match status for weighting (completed or retired)
-        const matchStatusForRating = matchData.score.retired_player_id ? 'retired' : 'completed';
-
-        // --- 5. Execute GlickoTR Calculation --- 
-        const { player_new, opponent_new } = calculateGlickoTRUpdate(
-            player1Rating,
-            player2Rating,
-            player1GamesWon,
-            player2GamesWon,
-            matchStatusForRating,
-            matchData.event_category,
-            matchData.is_public_event
-        );
-
-        // --- 6. Prepare Data for Database Update --- 
-        const isP1Winner = matchData.score.winner_id === matchData.player1_id;
-        const p1_wins_inc = isP1Winner ? 1 : 0;
-        const p1_losses_inc = isP1Winner ? 0 : 1;
-        const p2_wins_inc = isP1Winner ? 0 : 1;
-        const p2_losses_inc = isP1Winner ? 1 : 0;
-        const update_time = new Date().toISOString();
-
-        // --- 7. Call Atomic Update RPC Function --- 
-        console.log(`Calling RPC update_ratings_transaction for match ${matchId}`);
-        const { error: rpcError } = await supabaseAdmin.rpc('update_ratings_transaction', {
-            p_match_id: matchData.id,
-            p1_id: matchData.player1_id,
-            p1_mu: player_new.mu,
-            p1_phi: player_new.phi,
-            p1_sigma: player_new.sigma,
-            p1_wins: player1Profile.wins + p1_wins_inc,
-            p1_losses: player1Profile.losses + p1_losses_inc,
-            p2_id: matchData.player2_id,
-            p2_mu: opponent_new.mu,
-            p2_phi: opponent_new.phi,
-            p2_sigma: opponent_new.sigma,
-            p2_wins: player2Profile.wins + p2_wins_inc,
-            p2_losses: player2Profile.losses + p2_losses_inc,
-            p_match_time: update_time
-        });
-
-        if (rpcError) {
-            throw new Error(`RPC update_ratings_transaction failed: ${rpcError.message} (Code: ${rpcError.code}, Details: ${rpcError.details}, Hint: ${rpcError.hint})`);
-        }
-
-        // --- 8. Return Success --- 
-        console.log(`Successfully updated ratings for match ${matchId}`);
-        return new Response(JSON.stringify({ success: true, message: `Ratings updated for match ${matchId}` }), {
-            status: 200,
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
-
-    } catch (error) {
-        // Type check the error before accessing properties
-        let errorMessage = "An unexpected error occurred.";
-        if (error instanceof Error) {
-            errorMessage = error.message;
-        }
-
-        console.error(`Error processing match ${matchId || 'unknown'}:`, errorMessage);
-        // Consider more specific error codes based on error type
-        let status = 500;
-        // Use errorMessage for checks
-        if (errorMessage.includes('not found') || errorMessage.includes('Could not find')) status = 404;
-        if (errorMessage.includes('Missing') || errorMessage.includes('missing required score data')) status = 400;
-        
-        return new Response(JSON.stringify({ error: errorMessage }), {
-            status: status,
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
-    }
-});
+serve(createHandler());
 
 /* To invoke locally:
 
@@ -0,0 +1,224 @@
+/**
+ * Leaderboard
+ *
+ * Read-only ranking built from the `rating_history` ledger. Players are ranked
+ * by a conservative rating (mu - 2 * phi) so a new player with one lucky win
+ * does not jump above established players, and players whose rating is still
+ * uncertain are marked provisional. Provisional players are ranked like
+ * everyone else; the caller decides whether to show them.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.8'
+import {
+    PlayerRating,
+    GlickoTRConfig,
+    applyInactivityDecay,
+    conservativeRating,
+    elapsedRatingPeriods
+} from './glicko.ts'
+import { RatingType, fetchAllRows } from './processing.ts'
+import { createConfigResolver } from './config.ts'
+import { InvalidBodyError } from './errors.ts'
+
+// Players above this phi, or with fewer rated matches, are provisional
+const DEFAULT_PROVISIONAL_PHI = 110;
+const DEFAULT_MIN_MATCHES = 5;
+// Number of deviations subtracted from mu for the ranking value
+const CONSERVATIVE_DEVIATIONS = 2;
+
+export interface LeaderboardRequest {
+    ratingType?: RatingType;      // Defaults to singles
+    pool?: string;                // Rank ratings in this pool; defaults to the profiles' own ratings
+    eventCategory?: string;       // Only players with matches in this category
+    publicOnly?: boolean;         // Only players with public event matches
+    leagueId?: string;            // Only players with matches in this league; also selects its config
+    seasonId?: string;
+    from?: string;                // Only players with a qualifying match at or after this time
+    to?: string;                  // Ratings as of this time; defaults to now
+    since?: string;               // Report rank movement since this time
+    includeProvisional?: boolean; // Defaults to true; provisional entries carry `provisional: true` either way
+    provisionalPhi?: number;
+    minMatches?: number;
+    limit?: number;
+}
+
+export interface LeaderboardEntry {
+    rank: number;
+    playerId: string;
+    rating: PlayerRating;       // Latest rating as of `asOf`, with inactivity decay applied
+    conservativeRating: number; // mu - 2 * phi
+    matches: number;            // Rated matches up to `asOf`
+    provisional: boolean;
+    previousRank: number | null; // Rank at `since`; null if unranked then or no `since`
+    movement: number | null;     // Places gained since `since` (positive = moved up)
+}
+
+export interface LeaderboardResponse {
+    configVersion: string;
+    pool: string | null;
+    asOf: string;
+    since: string | null;
+    entries: LeaderboardEntry[];
+}
+
+interface LedgerRow {
+    player_id: string;
+    mu_after: number;
+    phi_after: number;
+    sigma_after: number;
+    played_at: string;
+}
+
+interface QualifyingRow {
+    player_id: string;
+    played_at: string;
+}
+
+function parseTime(value: string | undefined, name: string): Date | null {
+    if (value === undefined) return null;
+    const time = new Date(value);
+    if (isNaN(time.getTime())) {
+        throw new InvalidBodyError(`Missing or invalid leaderboard parameters: ${name} must be an ISO timestamp`, { parameter: name });
+    }
+    return time;
+}
+
+/**
+ * Validates the leaderboard body. Returns an error message, or null if valid.
+ */
+export function validateLeaderboardRequest(body: LeaderboardRequest): string | null {
+    if (body.ratingType !== undefined && body.ratingType !== 'singles' && body.ratingType !== 'doubles') {
+        return "ratingType must be 'singles' or 'doubles'";
+    }
+    if (body.pool !== undefined && (typeof body.pool !== 'string' || !body.pool)) {
+        return 'pool must be a non-empty pool key';
+    }
+    for (const key of ['provisionalPhi', 'minMatches', 'limit'] as const) {
+        const value = body[key];
+        if (value !== undefined && (typeof value !== 'number' || !isFinite(value) || value < 0)) {
+            return `${key} must be a non-negative number`;
+        }
+    }
+    return null;
+}
+
+/** Ranks players as of `asOf`, counting only qualifying matches inside [from, asOf]. */
+function rankAt(
+    ledger: LedgerRow[],
+    qualifying: QualifyingRow[],
+    from: Date | null,
+    asOf: Date,
+    body: LeaderboardRequest,
+    config: GlickoTRConfig
+): Omit<LeaderboardEntry, 'previousRank' | 'movement'>[] {
+    const eligible = new Set(
+        qualifying
+            .filter((row) => {
+                const playedAt = new Date(row.played_at);
+                return playedAt <= asOf && (!from || playedAt >= from);
+            })
+            .map((row) => row.player_id)
+    );
+
+    // The ledger is ordered by time, so the last row seen per player is their rating as of `asOf`
+    const latest = new Map<string, { row: LedgerRow, matches: number }>();
+    for (const row of ledger) {
+        if (new Date(row.played_at) > asOf || !eligible.has(row.player_id)) continue;
+        const seen = latest.get(row.player_id);
+        latest.set(row.player_id, { row, matches: (seen?.matches ?? 0) + 1 });
+    }
+
+    const provisionalPhi = body.provisionalPhi ?? DEFAULT_PROVISIONAL_PHI;
+    const minMatches = body.minMatches ?? DEFAULT_MIN_MATCHES;
+
+    return [...latest.entries()]
+        .map(([playerId, { row, matches }]) => {
+            const stored = { mu: row.mu_after, phi: row.phi_after, sigma: row.sigma_after };
+            const periods = elapsedRatingPeriods(new Date(row.played_at), asOf, config);
+            const rating = applyInactivityDecay(stored, periods, config);
+            return {
+                rank: 0,
+                playerId,
+                rating,
+                conservativeRating: conservativeRating(rating, CONSERVATIVE_DEVIATIONS),
+                matches,
+                provisional: rating.phi > provisionalPhi || matches < minMatches,
+            };
+        })
+        .filter((entry) => body.includeProvisional !== false || !entry.provisional)
+        .sort((a, b) => b.conservativeRating - a.conservativeRating || a.playerId.localeCompare(b.playerId))
+        .map((entry, index) => ({ ...entry, rank: index + 1 }));
+}
+
+/**
+ * Builds the leaderboard without writing anything.
+ */
+export async function buildLeaderboard(
+    supabaseAdmin: SupabaseClient,
+    body: LeaderboardRequest
+): Promise<LeaderboardResponse> {
+    const ratingType = body.ratingType ?? 'singles';
+    const pool = body.pool ?? null;
+    const asOf = parseTime(body.to, 'to') ?? new Date();
+    const from = parseTime(body.from, 'from');
+    const since = parseTime(body.since, 'since');
+    const config = await createConfigResolver(supabaseAdmin)({ leagueId: body.leagueId, seasonId: body.seasonId });
+
+    // --- 1. Every rating change of this type and pool up to `asOf`, oldest first, page by page ---
+    const ledger = await fetchAllRows('Rating history fetch', (rangeFrom, rangeTo) => {
+        const query = supabaseAdmin
+            .from('rating_history')
+            .select('player_id, mu_after, phi_after, sigma_after, played_at')
+            .eq('rating_type', ratingType)
+            .lte('played_at', asOf.toISOString());
+        return (pool ? query.eq('pool', pool) : query.is('pool', null))
+            .order('played_at', { ascending: true })
+            .order('match_id', { ascending: true })
+            .order('player_id', { ascending: true })
+            .range(rangeFrom, rangeTo)
+            .returns<LedgerRow[]>();
+    });
+
+    // --- 2. Matches that make a player eligible under the filters ---
+    const qualifying = await fetchAllRows('Rating history fetch', (rangeFrom, rangeTo) => {
+        let query = supabaseAdmin
+            .from('rating_history')
+            .select('player_id, played_at, matches!inner(event_category, is_public_event, league_id, season_id)')
+            .eq('rating_type', ratingType)
+            .lte('played_at', asOf.toISOString());
+        query = pool ? query.eq('pool', pool) : query.is('pool', null);
+        if (body.eventCategory) query = query.eq('matches.event_category', body.eventCategory);
+        if (body.publicOnly) query = query.eq('matches.is_public_event', true);
+        if (body.leagueId) query = query.eq('matches.league_id', body.leagueId);
+        if (body.seasonId) query = query.eq('matches.season_id', body.seasonId);
+        if (from) query = query.gte('played_at', from.toISOString());
+        return query
+            .order('match_id', { ascending: true })
+            .order('player_id', { ascending: true })
+            .range(rangeFrom, rangeTo)
+            .returns<QualifyingRow[]>();
+    });
+
+    // --- 3. Rank now and, for movement, at `since` ---
+    const current = rankAt(ledger, qualifying, from, asOf, body, config);
+    const previousRanks = since
+        ? new Map(rankAt(ledger, qualifying, from, since, body, config).map((e) => [e.playerId, e.rank]))
+        : new Map<string, number>();
+
+    const entries = current.slice(0, body.limit ?? current.length).map((entry) => {
+        const previousRank = previousRanks.get(entry.playerId) ?? null;
+        return {
+            ...entry,
+            previousRank,
+            movement: previousRank === null ? null : previousRank - entry.rank,
+        };
+    });
+
+    return {
+        configVersion: config.version,
+        pool,
+        asOf: asOf.toISOString(),
+        since: since ? since.toISOString() : null,
+        entries,
+    };
+}
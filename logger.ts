@@ -0,0 +1,141 @@
+/**
+ * Structured Logging
+ *
+ * Every log line is one JSON object with a level, a message and the fields of
+ * the logger that wrote it, e.g. the request's correlation ID and match ID.
+ * The minimum level comes from the `LOG_LEVEL` environment variable (`debug`,
+ * `info`, `warn` or `error`; default `info`).
+ *
+ * Secrets are never written: fields whose name looks like a credential, and
+ * values that look like a bearer token or JWT, are replaced by `[redacted]`.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+/** Receives each formatted line; the default writes to the console. */
+export type LogSink = (line: string, level: LogLevel) => void;
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export const REDACTED = '[redacted]';
+
+// Field names that carry credentials, e.g. serviceKey, webhook_secret, authorization
+const SECRET_KEY_PATTERN = /secret|password|token|authorization|api_?key|service_?key|service_?role|jwt|cookie/i;
+// Values that are credentials whatever their field is called
+const SECRET_VALUE_PATTERN = /^(Bearer\s+\S+|eyJ[\w-]+\.[\w-]+\.[\w-]*)$/;
+
+// Nested values deeper than this are cut off rather than walked
+const MAX_DEPTH = 6;
+
+function isLogLevel(value: unknown): value is LogLevel {
+    return typeof value === 'string' && value in LEVEL_ORDER;
+}
+
+/** The minimum level from `LOG_LEVEL`, or `info` if it is unset or unknown. */
+export function logLevelFromEnv(): LogLevel {
+    let level: string | undefined;
+    try {
+        level = Deno.env.get('LOG_LEVEL')?.toLowerCase();
+    } catch {
+        // Without --allow-env, e.g. the calibration harness, keep the default
+    }
+    return isLogLevel(level) ? level : 'info';
+}
+
+/** A copy of `value` that is safe to log: secrets redacted, errors reduced to name and message. */
+export function redact(value: unknown, depth = 0): unknown {
+    if (typeof value === 'string') {
+        return SECRET_VALUE_PATTERN.test(value.trim()) ? REDACTED : value;
+    }
+    if (value instanceof Error) {
+        return { name: value.name, message: redact(value.message, depth + 1) };
+    }
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (depth >= MAX_DEPTH) return '[truncated]';
+    if (Array.isArray(value)) {
+        return value.map((item) => redact(item, depth + 1));
+    }
+    return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, SECRET_KEY_PATTERN.test(key) ? REDACTED : redact(item, depth + 1)])
+    );
+}
+
+function consoleSink(line: string, level: LogLevel): void {
+    if (level === 'error') console.error(line);
+    else if (level === 'warn') console.warn(line);
+    else console.log(line);
+}
+
+export interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+    /** A logger that adds `fields` to every line and shares this logger's stage timings. */
+    child(fields: LogFields): Logger;
+    /**
+     * Runs `fn` as the named stage and adds its duration in milliseconds to the
+     * stage's total, so a stage run on every conflict retry is summed.
+     */
+    time<T>(stage: string, fn: () => PromiseLike<T> | T): Promise<T>;
+    /** Total milliseconds per stage timed so far. */
+    timings(): Record<string, number>;
+}
+
+export interface LoggerOptions {
+    level?: LogLevel; // Defaults to `LOG_LEVEL`, read when each line is written
+    sink?: LogSink;
+    fields?: LogFields;
+}
+
+function roundMs(ms: number): number {
+    return Math.round(ms * 100) / 100;
+}
+
+/** Creates a logger; its children share one set of stage timings, e.g. for one request. */
+export function createLogger(options: LoggerOptions = {}): Logger {
+    const sink = options.sink ?? consoleSink;
+    const stageTimings: Record<string, number> = {};
+
+    const build = (baseFields: LogFields): Logger => {
+        const write = (level: LogLevel, message: string, fields: LogFields = {}) => {
+            const minimum = options.level ?? logLevelFromEnv();
+            if (LEVEL_ORDER[level] < LEVEL_ORDER[minimum]) return;
+            const line = {
+                ...(redact({ ...baseFields, ...fields }) as LogFields),
+                level,
+                time: new Date().toISOString(),
+                message,
+            };
+            sink(JSON.stringify(line), level);
+        };
+
+        return {
+            debug: (message, fields) => write('debug', message, fields),
+            info: (message, fields) => write('info', message, fields),
+            warn: (message, fields) => write('warn', message, fields),
+            error: (message, fields) => write('error', message, fields),
+            child: (fields) => build({ ...baseFields, ...fields }),
+            time: async (stage, fn) => {
+                const started = performance.now();
+                try {
+                    return await fn();
+                } finally {
+                    const elapsed = roundMs(performance.now() - started);
+                    stageTimings[stage] = roundMs((stageTimings[stage] ?? 0) + elapsed);
+                    write('debug', 'Stage completed', { stage, durationMs: elapsed });
+                }
+            },
+            timings: () => ({ ...stageTimings }),
+        };
+    };
+
+    return build(options.fields ?? {});
+}
+
+/** Logger for code without a request logger at hand, e.g. the rating math. */
+export const rootLogger = createLogger();
@@ -0,0 +1,236 @@
+/**
+ * Match Prediction
+ *
+ * Read-only preview of a match before it is played: the expected score and the
+ * projected ratings for a few hypothetical scorelines. Uses the same weighting
+ * rules and inactivity decay as a real update, so the preview always matches
+ * what rating the match would do.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.8'
+import {
+    PlayerRating,
+    GlickoTRConfig,
+    ScoreModel,
+    calculateExpectedScore,
+    calculateGlickoTRUpdate,
+    getEventCategory
+} from './glicko.ts'
+import { ProfileData, PROFILE_COLUMNS, decayedRating, matchPoolKey } from './processing.ts'
+import { createConfigResolver } from './config.ts'
+import { modelScore } from './scoring.ts'
+import { DatabaseError, ProfileMissingError, UnknownEventCategoryError } from './errors.ts'
+
+export interface Scoreline {
+    label?: string;
+    p1: number; // Games (or points for tiebreak_event) won by player 1
+    p2: number; // Games (or points for tiebreak_event) won by player 2
+    sets?: [number, number]; // Sets won by each player, for the set_share score model
+}
+
+export interface PredictRequest {
+    player1Id?: string;
+    player2Id?: string;
+    player1Rating?: PlayerRating;
+    player2Rating?: PlayerRating;
+    eventCategory?: string;  // Defaults to standard_match
+    isPublicEvent?: boolean; // Defaults to false
+    leagueId?: string;       // Selects the league/season rating config, as for a real match
+    seasonId?: string;
+    surface?: string;        // With event category, league and season, selects the rating pool
+    scorelines?: Scoreline[];
+}
+
+export interface ScorelineProjection {
+    label: string;
+    p1: number;
+    p2: number;
+    matchWeight: number;
+    actualScore: number;    // Player 1's actual score under the config's score model
+    scoreModel: ScoreModel; // Score model applied, after any fallback to game share
+    player1_new: PlayerRating;
+    player2_new: PlayerRating;
+    player1_delta: number; // Change in mu
+    player2_delta: number; // Change in mu
+}
+
+export interface PredictResponse {
+    configVersion: string;
+    pool: string | null; // Pool the players' ratings were read from; null when pools are off
+    player1: PlayerRating;
+    player2: PlayerRating;
+    expectedScore: number; // Expected share of games for player 1
+    projections: ScorelineProjection[];
+}
+
+const TEN_POINT_TIEBREAK_SCORELINES: Scoreline[] = [
+    { label: 'Player 1 wins 10-4', p1: 10, p2: 4, sets: [1, 0] },
+    { label: 'Player 1 wins 10-8', p1: 10, p2: 8, sets: [1, 0] },
+    { label: 'Player 2 wins 10-8', p1: 8, p2: 10, sets: [0, 1] },
+    { label: 'Player 2 wins 10-4', p1: 4, p2: 10, sets: [0, 1] },
+];
+
+// Scorelines that are finished scores in each built-in category's format
+const DEFAULT_SCORELINES: Record<string, Scoreline[]> = {
+    standard_match: [
+        { label: 'Player 1 wins 6-1 6-1', p1: 12, p2: 2, sets: [2, 0] },
+        { label: 'Player 1 wins 6-4 6-4', p1: 12, p2: 8, sets: [2, 0] },
+        { label: 'Player 2 wins 6-4 6-4', p1: 8, p2: 12, sets: [0, 2] },
+        { label: 'Player 2 wins 6-1 6-1', p1: 2, p2: 12, sets: [0, 2] },
+    ],
+    tiebreak_event: TEN_POINT_TIEBREAK_SCORELINES,
+    match_tiebreak: TEN_POINT_TIEBREAK_SCORELINES,
+    pro_set: [
+        { label: 'Player 1 wins 8-2', p1: 8, p2: 2, sets: [1, 0] },
+        { label: 'Player 1 wins 8-6', p1: 8, p2: 6, sets: [1, 0] },
+        { label: 'Player 2 wins 8-6', p1: 6, p2: 8, sets: [0, 1] },
+        { label: 'Player 2 wins 8-2', p1: 2, p2: 8, sets: [0, 1] },
+    ],
+    fast4: [
+        { label: 'Player 1 wins 4-1 4-1', p1: 8, p2: 2, sets: [2, 0] },
+        { label: 'Player 1 wins 4-2 4-3', p1: 8, p2: 5, sets: [2, 0] },
+        { label: 'Player 2 wins 4-2 4-3', p1: 5, p2: 8, sets: [0, 2] },
+        { label: 'Player 2 wins 4-1 4-1', p1: 2, p2: 8, sets: [0, 2] },
+    ],
+};
+
+function isPlayerRating(value: unknown): value is PlayerRating {
+    const r = value as PlayerRating;
+    return !!r && [r.mu, r.phi, r.sigma].every((v) => typeof v === 'number' && isFinite(v));
+}
+
+function isCount(value: unknown): value is number {
+    return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function isSetCount(value: unknown): value is [number, number] {
+    return Array.isArray(value) && value.length === 2 && value.every(isCount);
+}
+
+function isScoreline(value: unknown): value is Scoreline {
+    const s = value as Scoreline;
+    return !!s && typeof s === 'object' && isCount(s.p1) && isCount(s.p2);
+}
+
+/**
+ * Validates the prediction body. Returns an error message, or null if valid.
+ */
+export function validatePredictRequest(body: PredictRequest): string | null {
+    const hasIds = !!body.player1Id && !!body.player2Id;
+    const hasRatings = body.player1Rating !== undefined || body.player2Rating !== undefined;
+
+    if (hasIds === hasRatings) {
+        return 'Prediction request must include either player1Id and player2Id, or player1Rating and player2Rating';
+    }
+    if (hasRatings && (!isPlayerRating(body.player1Rating) || !isPlayerRating(body.player2Rating))) {
+        return 'player1Rating and player2Rating must each have numeric mu, phi and sigma';
+    }
+    if (body.scorelines !== undefined && (!Array.isArray(body.scorelines) || !body.scorelines.every(isScoreline))) {
+        return 'scorelines must be an array of { p1, p2 } game counts (non-negative whole numbers)';
+    }
+    if (body.scorelines?.some((s) => s.sets !== undefined && !isSetCount(s.sets))) {
+        return 'scoreline sets must be a pair of set counts, e.g. [2, 1]';
+    }
+    return null;
+}
+
+async function fetchCurrentRatings(
+    supabaseAdmin: SupabaseClient,
+    player1Id: string,
+    player2Id: string,
+    config: GlickoTRConfig,
+    pool: string | null
+): Promise<[PlayerRating, PlayerRating]> {
+    const { data: profilesData, error: profileError } = await supabaseAdmin
+        .from('profiles')
+        .select(PROFILE_COLUMNS)
+        .in('id', [player1Id, player2Id])
+        .returns<ProfileData[]>();
+    if (profileError) throw new DatabaseError('Profile fetch', profileError);
+
+    const player1Profile = profilesData?.find((p) => p.id === player1Id);
+    const player2Profile = profilesData?.find((p) => p.id === player2Id);
+    if (!player1Profile || !player2Profile) {
+        throw new ProfileMissingError([player1Id, player2Id]);
+    }
+
+    // Apply outstanding inactivity decay, as rating the match now would
+    const now = new Date();
+    return [
+        decayedRating(player1Profile, now, config, 'singles', pool),
+        decayedRating(player2Profile, now, config, 'singles', pool),
+    ];
+}
+
+/**
+ * Predicts the outcome of a match without writing anything.
+ */
+export async function predictMatch(
+    supabaseAdmin: SupabaseClient,
+    body: PredictRequest
+): Promise<PredictResponse> {
+    const eventCategory = body.eventCategory ?? 'standard_match';
+    const isPublicEvent = body.isPublicEvent ?? false;
+    const config = await createConfigResolver(supabaseAdmin)({ leagueId: body.leagueId, seasonId: body.seasonId });
+    const category = getEventCategory(eventCategory, config);
+    if (!category) {
+        throw new UnknownEventCategoryError(eventCategory, Object.keys(config.categories));
+    }
+
+    const pool = matchPoolKey({
+        surface: body.surface,
+        event_category: eventCategory,
+        league_id: body.leagueId,
+        season_id: body.seasonId,
+    }, config);
+
+    const [player1, player2] = body.player1Id && body.player2Id
+        ? await fetchCurrentRatings(supabaseAdmin, body.player1Id, body.player2Id, config, pool)
+        : [body.player1Rating!, body.player2Rating!];
+
+    // Custom categories are scored like validation scores them: standard sets, or 10-point tiebreaks
+    const scorelines = body.scorelines
+        ?? (Object.hasOwn(DEFAULT_SCORELINES, eventCategory) ? DEFAULT_SCORELINES[eventCategory] : null)
+        ?? (category.scoreUnit === 'points' ? TEN_POINT_TIEBREAK_SCORELINES : DEFAULT_SCORELINES.standard_match);
+
+    const projections = scorelines.map((scoreline) => {
+        // The player with more games wins the scoreline, unless its sets say otherwise
+        const score = modelScore({
+            side1Won: scoreline.sets ? scoreline.sets[0] > scoreline.sets[1] : scoreline.p1 > scoreline.p2,
+            games: [scoreline.p1, scoreline.p2],
+            sets: scoreline.sets ?? null,
+            points: null,
+        }, eventCategory, config);
+        const { player_new, opponent_new, match_weight } = calculateGlickoTRUpdate(
+            player1,
+            player2,
+            scoreline.p1,
+            scoreline.p2,
+            'completed',
+            eventCategory,
+            isPublicEvent,
+            { config, actualScore: score.score }
+        );
+        return {
+            label: scoreline.label ?? `${scoreline.p1}-${scoreline.p2}`,
+            p1: scoreline.p1,
+            p2: scoreline.p2,
+            matchWeight: match_weight,
+            actualScore: score.score,
+            scoreModel: score.model,
+            player1_new: player_new,
+            player2_new: opponent_new,
+            player1_delta: player_new.mu - player1.mu,
+            player2_delta: opponent_new.mu - player2.mu,
+        };
+    });
+
+    return {
+        configVersion: config.version,
+        pool,
+        player1,
+        player2,
+        expectedScore: calculateExpectedScore(player1, player2, config),
+        projections,
+    };
+}
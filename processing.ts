@@ -0,0 +1,693 @@
+/**
+ * Match Processing Helpers
+ *
+ * Shared steps used by both the single-match and batch routes: loading match
+ * and profile rows, turning a match into GlickoTR inputs, and persisting the
+ * result through the `update_ratings_transaction` RPC.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.8'
+import {
+    PlayerRating,
+    GlickoTRConfig,
+    DEFAULT_CONFIG,
+    MatchBreakdown,
+    MatchOutcome,
+    PoolAttribute,
+    ResultOutcome,
+    ScoreModel,
+    TeamRatings,
+    calculateGlickoTRUpdate,
+    calculateDoublesUpdate,
+    createDefaultRating,
+    blendRatings,
+    applyInactivityDecay,
+    elapsedRatingPeriods,
+    getEventCategory
+} from './glicko.ts'
+import { Logger, rootLogger } from './logger.ts'
+import { modelScore, totalsFromSets } from './scoring.ts'
+import {
+    DatabaseError,
+    InvalidMatchError,
+    ProfileMissingError,
+    RatingConflictError,
+    RpcError,
+    UnknownEventCategoryError
+} from './errors.ts'
+
+export interface MatchData {
+    id: string;
+    player1_id: string;
+    player2_id: string;
+    partner1_id?: string | null; // Doubles only: player1's partner (team 1)
+    partner2_id?: string | null; // Doubles only: player2's partner (team 2)
+    score: {
+        sets: { p1: number, p2: number, tiebreak?: { p1: number, p2: number } | null }[];
+        winner_id: string;
+        retired_player_id?: string | null;
+        outcome?: MatchOutcome; // How the match ended; derived from retired_player_id when absent
+        points?: { p1: number, p2: number } | null; // Total points won, when the scorer tracked them
+        // Ensure score payload also includes player IDs for clarity, though we use table cols here
+        player1_id?: string;
+        player2_id?: string;
+    };
+    status: string;
+    event_category: string;
+    is_public_event: boolean;
+    rating_updated_at?: string | null;
+    created_at?: string;
+    league_id?: string | null;
+    season_id?: string | null;
+    surface?: string | null;        // e.g. 'clay', 'hard', 'indoor_hard'; can select the rating pool
+    config_version?: string | null; // Config version that rated the match, set by the rating RPC
+}
+
+/** A player's rating in one pool, with the time they last played in it for inactivity decay. */
+export interface PoolRating extends PlayerRating {
+    last_played_at: string | null;
+}
+
+export interface ProfileData {
+    id: string;
+    rating_mu: number;
+    rating_phi: number;
+    rating_sigma: number;
+    wins: number;
+    losses: number;
+    last_played_at: string | null;
+    rating_decayed_at: string | null; // Time up to which inactivity decay has already been applied
+    // Separate doubles rating, used when the config sets separateDoublesRating; null until first rated
+    doubles_mu: number | null;
+    doubles_phi: number | null;
+    doubles_sigma: number | null;
+    rating_version: number; // Incremented by every rating write; used to detect stale writes
+    pool_ratings: Record<string, PoolRating> | null; // Rating per pool key; null until first rated in a pool
+}
+
+/** Which rating on the profile a match updates. */
+export type RatingType = 'singles' | 'doubles';
+
+/** Columns selected whenever a match row is loaded for rating. */
+export const MATCH_COLUMNS = 'id, player1_id, player2_id, partner1_id, partner2_id, score, status, event_category, is_public_event, rating_updated_at, created_at, league_id, season_id, surface, config_version';
+
+/** Columns selected whenever a profile row is loaded for rating. */
+export const PROFILE_COLUMNS = 'id, rating_mu, rating_phi, rating_sigma, wins, losses, last_played_at, rating_decayed_at, doubles_mu, doubles_phi, doubles_sigma, rating_version, pool_ratings';
+
+// Rows requested per page when reading a whole table. PostgREST returns at
+// most 1000 rows per request by default, so larger reads must be paged.
+export const PAGE_SIZE = 1000;
+
+/**
+ * Reads every row of a query by requesting `.range()` pages until a short
+ * page comes back. `page` must build the query afresh for each range, with an
+ * order that is stable across requests (e.g. by primary key).
+ */
+export async function fetchAllRows<T>(
+    what: string,
+    page: (from: number, to: number) => PromiseLike<{ data: T[] | null, error: { message: string, code?: string } | null }>,
+    pageSize: number = PAGE_SIZE
+): Promise<T[]> {
+    const rows: T[] = [];
+    for (let from = 0; ; from += pageSize) {
+        const { data, error } = await page(from, from + pageSize - 1);
+        if (error) throw new DatabaseError(what, error);
+        rows.push(...(data ?? []));
+        if (!data || data.length < pageSize) return rows;
+    }
+}
+
+/**
+ * One row of the `rating_history` ledger: a single player's view of one rated match.
+ * The "before" values are the profile as stored before the match, so the
+ * difference to the "after" values also includes any inactivity decay.
+ */
+export interface RatingHistoryEntry {
+    match_id: string;
+    rating_type: RatingType;
+    pool: string | null;                // Pool key of the rating that changed; null for the profile's own rating
+    player_id: string;
+    partner_id: string | null;          // Doubles only
+    opponent_id: string;
+    opponent_partner_id: string | null; // Doubles only
+    mu_before: number;
+    phi_before: number;
+    sigma_before: number;
+    mu_after: number;
+    phi_after: number;
+    sigma_after: number;
+    // The rest of the profile as stored before the match, so a rollback can restore it exactly
+    wins_before: number;
+    losses_before: number;
+    last_played_at_before: string | null;
+    rating_decayed_at_before: string | null;
+    expected_score: number;
+    actual_score: number;
+    match_weight: number;
+    score_model: ScoreModel;            // Score model that produced actual_score
+    played_at: string;
+}
+
+/** Result of rating one match in memory, ready to be written via RPC. */
+export interface MatchUpdate {
+    matchId: string;
+    playedAt: string;
+    configVersion: string;
+    ratingType: RatingType;
+    pool: string | null;         // Pool the match was rated in; null when pools are off
+    rated: boolean;              // False when the outcome policy leaves ratings untouched (e.g. walkovers)
+    scoreModel: ScoreModel;      // Score model applied, after any fallback to game share
+    profiles_new: ProfileData[]; // In `matchPlayerIds` order
+    expectedVersions: number[];  // `rating_version` of each profile the update was computed from
+    history: RatingHistoryEntry[];
+    breakdown?: MatchBreakdown; // player = player1 (or team 1), opponent = player2 (or team 2)
+}
+
+export function hasRequiredScoreData(match: MatchData): boolean {
+    return !!(match.score && match.score.winner_id && match.score.sets);
+}
+
+/** A match is doubles when it has four players. */
+export function isDoublesMatch(match: MatchData): boolean {
+    return !!match.partner1_id || !!match.partner2_id;
+}
+
+/**
+ * Player IDs in rating order: [player1, player2] for singles,
+ * [player1, partner1, player2, partner2] for doubles.
+ */
+export function matchPlayerIds(match: MatchData): string[] {
+    return isDoublesMatch(match)
+        ? [match.player1_id, match.partner1_id!, match.player2_id, match.partner2_id!]
+        : [match.player1_id, match.player2_id];
+}
+
+/**
+ * Throws if a doubles match is missing a partner or lists a player twice.
+ */
+export function assertValidPlayers(match: MatchData): void {
+    if (isDoublesMatch(match) && (!match.partner1_id || !match.partner2_id)) {
+        throw new InvalidMatchError(match.id, `Missing doubles partner for match ${match.id}: partner1_id and partner2_id must both be set.`);
+    }
+    const ids = matchPlayerIds(match);
+    if (new Set(ids).size !== ids.length) {
+        throw new InvalidMatchError(match.id, `Missing distinct players for match ${match.id}: the same player appears more than once.`);
+    }
+}
+
+/**
+ * Picks the match's profiles in `matchPlayerIds` order from a lookup.
+ * Returns null if any player's profile is missing.
+ */
+export function lookupMatchProfiles(
+    match: MatchData,
+    profiles: Map<string, ProfileData>
+): ProfileData[] | null {
+    const found = matchPlayerIds(match).map((id) => profiles.get(id));
+    return found.every((p) => !!p) ? found as ProfileData[] : null;
+}
+
+/**
+ * Throws if the match's event category is not in the config's registry, so
+ * such matches are rejected instead of silently rated with zero weight.
+ */
+export function assertKnownEventCategory(match: MatchData, config: GlickoTRConfig): void {
+    if (!getEventCategory(match.event_category, config)) {
+        throw new UnknownEventCategoryError(match.event_category, Object.keys(config.categories), match.id);
+    }
+}
+
+/** How the match ended: the score's explicit `outcome`, else retired or completed. */
+export function matchOutcome(match: MatchData): MatchOutcome {
+    if (match.score.outcome) return match.score.outcome;
+    return match.score.retired_player_id ? 'retired' : 'completed';
+}
+
+// Status passed to the GlickoTR weighting for each outcome rating mode
+const RATING_MODE_STATUS = { full: 'completed', scaled: 'retired', none: 'walkover' } as const;
+
+/** Orders matches by match time, falling back to ID so the sequence is deterministic. */
+export function compareMatchTime(a: MatchData, b: MatchData): number {
+    const timeA = a.created_at ? Date.parse(a.created_at) : 0;
+    const timeB = b.created_at ? Date.parse(b.created_at) : 0;
+    return timeA - timeB || a.id.localeCompare(b.id);
+}
+
+/** The match attributes a pool key is built from. */
+export type PoolMatchAttributes = Pick<MatchData, 'surface' | 'event_category' | 'league_id' | 'season_id'>;
+
+// How each pool attribute is read from a match
+const POOL_ATTRIBUTE_VALUES: Record<PoolAttribute, (match: PoolMatchAttributes) => string | null | undefined> = {
+    surface: (match) => match.surface,
+    event_category: (match) => match.event_category,
+    league: (match) => match.league_id,
+    season: (match) => match.season_id,
+};
+
+/**
+ * The pool a match is rated in under the config's `ratingPools`, e.g.
+ * 'surface:clay|event_category:standard_match'. An attribute the match does
+ * not have is written as 'none'. Null when pools are off.
+ */
+export function matchPoolKey(match: PoolMatchAttributes, config: GlickoTRConfig = DEFAULT_CONFIG): string | null {
+    if (config.ratingPools.by.length === 0) return null;
+    return config.ratingPools.by
+        .map((attribute) => `${attribute}:${POOL_ATTRIBUTE_VALUES[attribute](match) || 'none'}`)
+        .join('|');
+}
+
+function profileToRating(
+    profile: ProfileData,
+    ratingType: RatingType = 'singles',
+    config: GlickoTRConfig = DEFAULT_CONFIG,
+    pool: string | null = null
+): PlayerRating {
+    if (pool) {
+        const poolRating = profile.pool_ratings?.[pool];
+        return poolRating
+            ? { mu: poolRating.mu, phi: poolRating.phi, sigma: poolRating.sigma }
+            : createDefaultRating(config);
+    }
+    if (ratingType === 'doubles') {
+        if (profile.doubles_mu === null || profile.doubles_phi === null || profile.doubles_sigma === null) {
+            return createDefaultRating(config);
+        }
+        return { mu: profile.doubles_mu, phi: profile.doubles_phi, sigma: profile.doubles_sigma };
+    }
+    return {
+        mu: profile.rating_mu,
+        phi: profile.rating_phi,
+        sigma: profile.rating_sigma,
+    };
+}
+
+/** Copy of the profile with the given rating written to the chosen rating columns. */
+function withRating(profile: ProfileData, ratingType: RatingType, rating: PlayerRating): ProfileData {
+    return ratingType === 'doubles'
+        ? { ...profile, doubles_mu: rating.mu, doubles_phi: rating.phi, doubles_sigma: rating.sigma }
+        : { ...profile, rating_mu: rating.mu, rating_phi: rating.phi, rating_sigma: rating.sigma };
+}
+
+/**
+ * The later of a stored activity time and a match time, so rating a match late
+ * or out of order never moves a player's inactivity anchor backwards.
+ */
+function laterTime(stored: string | null | undefined, playedAt: string): string {
+    return stored && Date.parse(stored) > Date.parse(playedAt) ? stored : playedAt;
+}
+
+/**
+ * Copy of the profile with the given rating written to a pool. With
+ * `blendOverall`, the profile's own rating becomes the blend of all its pools.
+ */
+function withPoolRating(
+    profile: ProfileData,
+    pool: string,
+    rating: PlayerRating,
+    playedAt: string,
+    config: GlickoTRConfig
+): ProfileData {
+    const lastPlayedAt = laterTime(profile.pool_ratings?.[pool]?.last_played_at, playedAt);
+    const pools = { ...profile.pool_ratings, [pool]: { mu: rating.mu, phi: rating.phi, sigma: rating.sigma, last_played_at: lastPlayedAt } };
+    const updated = { ...profile, pool_ratings: pools };
+    return config.ratingPools.blendOverall
+        ? withRating(updated, 'singles', blendRatings(Object.values(pools))!)
+        : updated;
+}
+
+/**
+ * The point from which inactivity is counted: the later of the last match
+ * played and the last decay sweep. Null for players who have never played.
+ * A pool rating decays from the last match played in that pool.
+ */
+export function decayAnchor(profile: ProfileData, pool: string | null = null): Date | null {
+    const times = (pool ? [profile.pool_ratings?.[pool]?.last_played_at] : [profile.last_played_at, profile.rating_decayed_at])
+        .filter((t): t is string => !!t)
+        .map((t) => new Date(t));
+    if (times.length === 0) return null;
+    return new Date(Math.max(...times.map((t) => t.getTime())));
+}
+
+/** The profile's rating with any outstanding inactivity decay applied as of `asOf`. */
+export function decayedRating(
+    profile: ProfileData,
+    asOf: Date,
+    config: GlickoTRConfig = DEFAULT_CONFIG,
+    ratingType: RatingType = 'singles',
+    pool: string | null = null
+): PlayerRating {
+    const anchor = decayAnchor(profile, pool);
+    const rating = profileToRating(profile, ratingType, config, pool);
+    if (!anchor) return rating;
+    return applyInactivityDecay(rating, elapsedRatingPeriods(anchor, asOf, config), config);
+}
+
+function historyEntry(
+    match: MatchData,
+    ratingType: RatingType,
+    pool: string | null,
+    profile: ProfileData,
+    before: PlayerRating,
+    after: PlayerRating,
+    ids: { player: string, partner: string | null, opponent: string, opponentPartner: string | null },
+    outcome: ResultOutcome,
+    scoreModel: ScoreModel,
+    playedAt: string
+): RatingHistoryEntry {
+    return {
+        match_id: match.id,
+        rating_type: ratingType,
+        pool: pool,
+        player_id: ids.player,
+        partner_id: ids.partner,
+        opponent_id: ids.opponent,
+        opponent_partner_id: ids.opponentPartner,
+        mu_before: before.mu,
+        phi_before: before.phi,
+        sigma_before: before.sigma,
+        mu_after: after.mu,
+        phi_after: after.phi,
+        sigma_after: after.sigma,
+        wins_before: profile.wins,
+        losses_before: profile.losses,
+        last_played_at_before: profile.last_played_at,
+        rating_decayed_at_before: profile.rating_decayed_at,
+        expected_score: outcome.expectedScore,
+        actual_score: outcome.actualScore,
+        match_weight: outcome.weight.matchWeight,
+        score_model: scoreModel,
+        played_at: playedAt,
+    };
+}
+
+/**
+ * Rates a single confirmed match against the given profiles without touching
+ * the database. `profiles` must be in `matchPlayerIds` order; singles and
+ * doubles matches are told apart by their player count. Returns the full
+ * post-match profile rows for every player, and the calculation breakdown
+ * when `detailed` is set.
+ */
+export function computeMatchUpdate(
+    match: MatchData,
+    profiles: ProfileData[],
+    options: { config?: GlickoTRConfig, detailed?: boolean } = {}
+): MatchUpdate {
+    const config = options.config ?? DEFAULT_CONFIG;
+    const doubles = profiles.length === 4;
+    const ratingType: RatingType = doubles && config.separateDoublesRating ? 'doubles' : 'singles';
+    // Pools divide the singles rating; a separate doubles rating is not pooled
+    const pool = ratingType === 'singles' ? matchPoolKey(match, config) : null;
+
+    // Side 1 is player1 (and partner1); side 2 the rest. Score sets are in the same order.
+    const sideSize = profiles.length / 2;
+    const side1Ids = profiles.slice(0, sideSize).map((p) => p.id);
+    const isSide1Winner = side1Ids.includes(match.score.winner_id);
+
+    // Game totals drive the match weight; the score model gives the actual score
+    const scoreUnit = getEventCategory(match.event_category, config)?.scoreUnit ?? 'games';
+    const totals = totalsFromSets(match.score.sets, isSide1Winner, match.score.points ?? null, scoreUnit);
+    const [side1Games, side2Games] = totals.games;
+    const score = modelScore(totals, match.event_category, config);
+
+    // The outcome policy decides the weighting status and whether the W/L record changes
+    const policy = config.outcomePolicies[matchOutcome(match)];
+    const matchStatusForRating = RATING_MODE_STATUS[policy.rating];
+    const rated = policy.rating !== 'none';
+
+    // Grow phi for any rating periods a player sat out before this match.
+    // Unrated outcomes (e.g. walkovers) leave the stored ratings untouched.
+    const playedAt = match.created_at ?? new Date().toISOString();
+    const playedAtDate = new Date(playedAt);
+    const ratings = profiles.map((p) => rated
+        ? decayedRating(p, playedAtDate, config, ratingType, pool)
+        : profileToRating(p, ratingType, config, pool));
+
+    let newRatings: PlayerRating[];
+    let result;
+    if (doubles) {
+        const doublesResult = calculateDoublesUpdate(
+            [ratings[0], ratings[1]] as TeamRatings,
+            [ratings[2], ratings[3]] as TeamRatings,
+            side1Games,
+            side2Games,
+            matchStatusForRating,
+            match.event_category,
+            match.is_public_event,
+            { detailed: options.detailed, config, actualScore: score.score }
+        );
+        newRatings = [...doublesResult.team1_new, ...doublesResult.team2_new];
+        result = doublesResult.team_result;
+    } else {
+        result = calculateGlickoTRUpdate(
+            ratings[0],
+            ratings[1],
+            side1Games,
+            side2Games,
+            matchStatusForRating,
+            match.event_category,
+            match.is_public_event,
+            { detailed: options.detailed, config, actualScore: score.score }
+        );
+        newRatings = [result.player_new, result.opponent_new];
+    }
+
+    const profiles_new: ProfileData[] = [];
+    const history: RatingHistoryEntry[] = [];
+    profiles.forEach((profile, index) => {
+        const onSide1 = index < sideSize;
+        const won = onSide1 === isSide1Winner;
+        const teammates = onSide1 ? profiles.slice(0, sideSize) : profiles.slice(sideSize);
+        const opponents = onSide1 ? profiles.slice(sideSize) : profiles.slice(0, sideSize);
+        const partner = teammates.find((p) => p.id !== profile.id);
+
+        const counted = policy.countRecord ? 1 : 0;
+        // An unrated outcome does not start a pool rating for a player new to the pool
+        const rerated = !pool
+            ? withRating(profile, ratingType, newRatings[index])
+            : rated ? withPoolRating(profile, pool, newRatings[index], playedAt, config) : profile;
+        profiles_new.push({
+            ...rerated,
+            wins: profile.wins + (won ? counted : 0),
+            losses: profile.losses + (won ? 0 : counted),
+            last_played_at: rated ? laterTime(profile.last_played_at, playedAt) : profile.last_played_at,
+            rating_decayed_at: rated ? laterTime(profile.rating_decayed_at, playedAt) : profile.rating_decayed_at,
+            rating_version: profile.rating_version + 1,
+        });
+        history.push(historyEntry(
+            match,
+            ratingType,
+            pool,
+            profile,
+            profileToRating(profile, ratingType, config, pool),
+            newRatings[index],
+            {
+                player: profile.id,
+                partner: partner?.id ?? null,
+                opponent: opponents[0].id,
+                opponentPartner: opponents[1]?.id ?? null,
+            },
+            onSide1 ? result.player_outcome : result.opponent_outcome,
+            score.model,
+            playedAt
+        ));
+    });
+
+    return {
+        matchId: match.id,
+        playedAt: playedAt,
+        configVersion: config.version,
+        ratingType: ratingType,
+        pool: pool,
+        rated: rated,
+        scoreModel: score.model,
+        profiles_new: profiles_new,
+        expectedVersions: profiles.map((p) => p.rating_version),
+        history: history,
+        breakdown: result.breakdown,
+    };
+}
+
+/**
+ * Markers the rating RPCs put in their error message when they refuse a write:
+ * a profile's `rating_version` no longer matches the version the update was
+ * computed from, or the match already has a `rating_updated_at`.
+ */
+export const VERSION_CONFLICT_MARKER = 'rating_version_conflict';
+const ALREADY_RATED_MARKER = 'match_already_rated';
+
+// How many times a match is recomputed from fresh profiles after a version conflict
+export const MAX_CONFLICT_RETRIES = 3;
+
+/** How a rating write ended: written, refused as stale, or refused because the match was already rated. */
+export type ApplyOutcome = 'applied' | 'conflict' | 'already_rated';
+
+function rpcOutcome(rpcName: string, rpcError: { message: string, code: string, details: string, hint: string } | null): ApplyOutcome {
+    if (!rpcError) return 'applied';
+    if (rpcError.message.includes(VERSION_CONFLICT_MARKER)) return 'conflict';
+    if (rpcError.message.includes(ALREADY_RATED_MARKER)) return 'already_rated';
+    throw new RpcError(rpcName, rpcError);
+}
+
+/**
+ * Writes a computed match update atomically: singles matches through the
+ * `update_ratings_transaction` RPC, doubles matches through
+ * `update_doubles_ratings_transaction`. The RPC only writes if every profile
+ * still has its expected `rating_version` and the match is not yet rated;
+ * otherwise the returned outcome says why nothing was written. Throws on any
+ * other RPC error.
+ */
+export async function applyMatchUpdate(
+    supabaseAdmin: SupabaseClient,
+    update: MatchUpdate
+): Promise<ApplyOutcome> {
+    const update_time = new Date().toISOString();
+
+    if (update.profiles_new.length === 4) {
+        const { error: rpcError } = await supabaseAdmin.rpc('update_doubles_ratings_transaction', {
+            p_match_id: update.matchId,
+            p_rating_type: update.ratingType,
+            p_pool: update.pool,
+            p_players: update.profiles_new,
+            p_expected_versions: update.expectedVersions,
+            p_match_time: update_time,
+            p_played_at: update.playedAt,
+            p_rated: update.rated,
+            p_config_version: update.configVersion,
+            p_history: update.history
+        });
+        return rpcOutcome('update_doubles_ratings_transaction', rpcError);
+    }
+
+    const [player1_new, player2_new] = update.profiles_new;
+    const { error: rpcError } = await supabaseAdmin.rpc('update_ratings_transaction', {
+        p_match_id: update.matchId,
+        p1_id: player1_new.id,
+        p1_mu: player1_new.rating_mu,
+        p1_phi: player1_new.rating_phi,
+        p1_sigma: player1_new.rating_sigma,
+        p1_wins: player1_new.wins,
+        p1_losses: player1_new.losses,
+        p1_expected_version: update.expectedVersions[0],
+        p1_pool_ratings: player1_new.pool_ratings,
+        p2_id: player2_new.id,
+        p2_mu: player2_new.rating_mu,
+        p2_phi: player2_new.rating_phi,
+        p2_sigma: player2_new.rating_sigma,
+        p2_wins: player2_new.wins,
+        p2_losses: player2_new.losses,
+        p2_expected_version: update.expectedVersions[1],
+        p2_pool_ratings: player2_new.pool_ratings,
+        p_match_time: update_time,
+        p_played_at: update.playedAt,
+        p_rated: update.rated,
+        p_pool: update.pool,
+        p_config_version: update.configVersion,
+        p_history: update.history
+    });
+    return rpcOutcome('update_ratings_transaction', rpcError);
+}
+
+/**
+ * Loads the match's profiles from the database in `matchPlayerIds` order.
+ * Throws if any profile is missing.
+ */
+export async function fetchMatchProfiles(
+    supabaseAdmin: SupabaseClient,
+    match: MatchData
+): Promise<ProfileData[]> {
+    const playerIds = matchPlayerIds(match);
+    const { data: profilesData, error: profileError } = await supabaseAdmin
+        .from('profiles')
+        .select(PROFILE_COLUMNS)
+        .in('id', playerIds)
+        .returns<ProfileData[]>();
+    if (profileError) throw new DatabaseError('Profile fetch', profileError);
+
+    const profiles = lookupMatchProfiles(match, new Map((profilesData ?? []).map((p) => [p.id, p])));
+    if (!profiles) {
+        throw new ProfileMissingError(playerIds);
+    }
+    return profiles;
+}
+
+/** How a request to rate a match ended. */
+export type RatingOutcome = 'rated' | 'conflict_retried' | 'already_rated';
+
+export interface RateMatchResult {
+    outcome: RatingOutcome;
+    attempts: number;              // Rating writes tried; 0 when the match was already rated
+    configVersion: string | null;
+    history: RatingHistoryEntry[]; // The match's ledger rows, so a repeated call sees the original result
+    update: MatchUpdate | null;    // Null when the match was already rated
+}
+
+/** The stored result of a match that has already been rated, read back from the ledger. */
+export async function fetchRatedResult(
+    supabaseAdmin: SupabaseClient,
+    matchId: string
+): Promise<RateMatchResult> {
+    const { data: matchData, error: matchError } = await supabaseAdmin
+        .from('matches')
+        .select('config_version')
+        .eq('id', matchId)
+        .single<{ config_version: string | null }>();
+    if (matchError) throw new DatabaseError('Match fetch', matchError);
+
+    const { data: historyData, error: historyError } = await supabaseAdmin
+        .from('rating_history')
+        .select('*')
+        .eq('match_id', matchId)
+        .returns<RatingHistoryEntry[]>();
+    if (historyError) throw new DatabaseError('Rating history fetch', historyError);
+
+    return {
+        outcome: 'already_rated',
+        attempts: 0,
+        configVersion: matchData?.config_version ?? null,
+        history: historyData ?? [],
+        update: null,
+    };
+}
+
+/**
+ * Rates a confirmed, validated match idempotently. An already rated match
+ * returns its stored result. If a profile changed between reading and writing
+ * (e.g. another match with the same player was rated concurrently), the
+ * profiles are fetched again and the match recomputed, up to
+ * `MAX_CONFLICT_RETRIES` times. `profiles` may supply the first attempt's
+ * profiles, as the batch route does with its in-memory carry-forward.
+ * The profile fetch, computation and RPC are timed as stages on `log`.
+ */
+export async function rateMatch(
+    supabaseAdmin: SupabaseClient,
+    match: MatchData,
+    config: GlickoTRConfig,
+    options: { detailed?: boolean, profiles?: ProfileData[], log?: Logger } = {}
+): Promise<RateMatchResult> {
+    if (match.rating_updated_at) {
+        return fetchRatedResult(supabaseAdmin, match.id);
+    }
+
+    const log = options.log ?? rootLogger;
+    let profiles = options.profiles ?? await log.time('fetch_profiles', () => fetchMatchProfiles(supabaseAdmin, match));
+    for (let attempt = 1; attempt <= MAX_CONFLICT_RETRIES + 1; attempt++) {
+        const update = await log.time('compute', () => computeMatchUpdate(match, profiles, { config, detailed: options.detailed }));
+        const applied = await log.time('rpc', () => applyMatchUpdate(supabaseAdmin, update));
+
+        if (applied === 'applied') {
+            return {
+                outcome: attempt === 1 ? 'rated' : 'conflict_retried',
+                attempts: attempt,
+                configVersion: update.configVersion,
+                history: update.history,
+                update: update,
+            };
+        }
+        if (applied === 'already_rated') {
+            return fetchRatedResult(supabaseAdmin, match.id);
+        }
+        log.warn('Rating version conflict, recomputing from fresh profiles', { matchId: match.id, attempt });
+        profiles = await log.time('fetch_profiles', () => fetchMatchProfiles(supabaseAdmin, match));
+    }
+    throw new RatingConflictError(`Rating conflict for match ${match.id}: profiles kept changing after ${MAX_CONFLICT_RETRIES} retries.`, { matchId: match.id, attempts: MAX_CONFLICT_RETRIES + 1 });
+}
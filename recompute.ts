@@ -0,0 +1,293 @@
+/**
+ * Rating Recompute
+ *
+ * Rebuilds ratings after a disputed score has been corrected. Every profile is
+ * reset to its latest rating adjustment (see seed.ts), or to
+ * `createDefaultRating()` if it has none, and all rated matches are replayed
+ * in time order through the same GlickoTR calculation used for live updates.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.8'
+import { PlayerRating, createDefaultRating, getEventCategory } from './glicko.ts'
+import {
+    MatchData,
+    ProfileData,
+    MATCH_COLUMNS,
+    PROFILE_COLUMNS,
+    RatingHistoryEntry,
+    hasRequiredScoreData,
+    assertValidPlayers,
+    matchPlayerIds,
+    lookupMatchProfiles,
+    compareMatchTime,
+    computeMatchUpdate,
+    fetchAllRows,
+    VERSION_CONFLICT_MARKER
+} from './processing.ts'
+import { createConfigResolver, loadEnvConfig } from './config.ts'
+import { ScoreValidationError, validateMatchScore } from './validation.ts'
+import { ErrorCode, MatchNotFoundError, ProfileMissingError, RatingConflictError, RpcError, UnknownEventCategoryError, errorCode } from './errors.ts'
+
+// Rating differences smaller than this are not reported as changes
+const CHANGE_TOLERANCE = 1e-9;
+
+export interface RecomputeRequest {
+    dryRun?: boolean;     // Defaults to true: report changes without committing them
+    fromMatchId?: string; // Targeted variant: only rewrite players affected from this match onward
+}
+
+export interface ProfileChange {
+    profileId: string;
+    before: ProfileData;
+    after: ProfileData;
+    delta: { mu: number, phi: number, sigma: number, wins: number, losses: number };
+}
+
+export interface RecomputeResult {
+    success: boolean;
+    dryRun: boolean;
+    replayedMatches: number;
+    skippedMatches: SkippedMatch[];
+    changes: ProfileChange[];
+}
+
+/**
+ * One row of the `rating_adjustments` audit table: a rating set by an admin
+ * rather than by a match. A player's latest adjustment is the rating a replay
+ * starts them from.
+ */
+export interface RatingAdjustment {
+    player_id: string;
+    kind: 'level' | 'override';  // Seeded from a self-reported level, or set explicitly
+    level_system: string | null; // e.g. 'ntrp' or 'utr'; null for an override
+    level_value: number | null;
+    mu_before: number;
+    phi_before: number;
+    sigma_before: number;
+    mu: number;
+    phi: number;
+    sigma: number;
+    reason: string;
+    actor_id: string | null;     // The admin's user ID; null for calls with the admin secret
+    actor_via: string;           // How the admin authenticated, e.g. 'jwt' or 'admin_secret'
+    recomputed: boolean;         // Whether the player's rated matches were replayed from it
+    created_at: string;
+}
+
+/** A rated match left out of a replay, with the error code for why. */
+export interface SkippedMatch {
+    matchId: string;
+    reason: string;
+    code: ErrorCode;
+}
+
+function defaultProfile(id: string, rating: PlayerRating = createDefaultRating(loadEnvConfig())): ProfileData {
+    return {
+        id: id,
+        rating_mu: rating.mu,
+        rating_phi: rating.phi,
+        rating_sigma: rating.sigma,
+        wins: 0,
+        losses: 0,
+        last_played_at: null,
+        rating_decayed_at: null,
+        doubles_mu: null,
+        doubles_phi: null,
+        doubles_sigma: null,
+        rating_version: 0,
+        pool_ratings: null,
+    };
+}
+
+/** The change from `before` to `after`, or null if nothing rating related differs. */
+export function diffProfiles(before: ProfileData, after: ProfileData): ProfileChange | null {
+    const delta = {
+        mu: after.rating_mu - before.rating_mu,
+        phi: after.rating_phi - before.rating_phi,
+        sigma: after.rating_sigma - before.rating_sigma,
+        wins: after.wins - before.wins,
+        losses: after.losses - before.losses,
+    };
+    const changed = Math.abs(delta.mu) > CHANGE_TOLERANCE
+        || Math.abs(delta.phi) > CHANGE_TOLERANCE
+        || Math.abs(delta.sigma) > CHANGE_TOLERANCE
+        || delta.wins !== 0
+        || delta.losses !== 0
+        || before.doubles_mu !== after.doubles_mu
+        || before.doubles_phi !== after.doubles_phi
+        || before.doubles_sigma !== after.doubles_sigma
+        || JSON.stringify(before.pool_ratings ?? {}) !== JSON.stringify(after.pool_ratings ?? {});
+    return changed ? { profileId: before.id, before, after, delta } : null;
+}
+
+/** Each player's latest rating adjustment, keyed by player ID. */
+async function fetchStartingRatings(supabaseAdmin: SupabaseClient): Promise<Map<string, PlayerRating>> {
+    const rows = await fetchAllRows('Rating adjustment fetch', (from, to) => supabaseAdmin
+        .from('rating_adjustments')
+        .select('player_id, mu, phi, sigma, created_at')
+        .order('created_at', { ascending: true })
+        .order('player_id', { ascending: true })
+        .range(from, to)
+        .returns<Pick<RatingAdjustment, 'player_id' | 'mu' | 'phi' | 'sigma' | 'created_at'>[]>());
+
+    // Later rows overwrite earlier ones
+    return new Map(rows.map((row) => [row.player_id, { mu: row.mu, phi: row.phi, sigma: row.sigma }]));
+}
+
+/**
+ * Writes changed profiles and replayed ledger rows in one transaction through
+ * the `apply_recomputed_ratings` RPC. With `voidMatchId`, the RPC also deletes
+ * that match's ledger rows and clears its `rating_updated_at`. With
+ * `adjustment`, it also inserts that `rating_adjustments` row.
+ */
+export async function applyRecomputedRatings(
+    supabaseAdmin: SupabaseClient,
+    changes: ProfileChange[],
+    history: RatingHistoryEntry[],
+    voidMatchId: string | null = null,
+    adjustment: RatingAdjustment | null = null
+): Promise<void> {
+    const { error: rpcError } = await supabaseAdmin.rpc('apply_recomputed_ratings', {
+        // Each profile carries the version it was read at, so a rating written meanwhile is detected
+        p_profiles: changes.map((c) => ({ ...c.after, rating_version: c.before.rating_version })),
+        p_history: history,
+        p_void_match_id: voidMatchId,
+        p_adjustment: adjustment,
+    });
+    if (rpcError?.message.includes(VERSION_CONFLICT_MARKER)) {
+        throw new RatingConflictError('Rating conflict during recompute: profiles were rated while replaying, run the recompute again.');
+    }
+    if (rpcError) {
+        throw new RpcError('apply_recomputed_ratings', rpcError);
+    }
+}
+
+/**
+ * Replays all rated matches from each player's starting rating and reports,
+ * and optionally commits, the resulting profile changes.
+ *
+ * With `fromMatchId`, matches before the corrected match are still replayed in
+ * memory to rebuild the state at that point, but only players who take part in
+ * a match from the corrected one onward are rewritten.
+ *
+ * With `voidMatchId` (used by the rollback route), that match is left out of
+ * the replay and treated as the corrected match; committing also un-rates it.
+ *
+ * With `adjustment` (used by the seed route), that player starts from the
+ * adjusted rating and committing also records the adjustment.
+ */
+export async function recomputeRatings(
+    supabaseAdmin: SupabaseClient,
+    request: RecomputeRequest,
+    options: { voidMatchId?: string, adjustment?: RatingAdjustment } = {}
+): Promise<RecomputeResult> {
+    const dryRun = request.dryRun !== false;
+    const voidMatchId = options.voidMatchId ?? null;
+    const adjustment = options.adjustment ?? null;
+
+    // --- 1. Fetch all rated matches and all profiles, page by page ---
+    const matchesData = await fetchAllRows('Match fetch', (from, to) => supabaseAdmin
+        .from('matches')
+        .select(MATCH_COLUMNS)
+        .not('rating_updated_at', 'is', null)
+        .order('id', { ascending: true })
+        .range(from, to)
+        .returns<MatchData[]>());
+
+    const profilesData = await fetchAllRows('Profile fetch', (from, to) => supabaseAdmin
+        .from('profiles')
+        .select(PROFILE_COLUMNS)
+        .order('id', { ascending: true })
+        .range(from, to)
+        .returns<ProfileData[]>());
+
+    const startingRatings = await fetchStartingRatings(supabaseAdmin);
+    if (adjustment) {
+        startingRatings.set(adjustment.player_id, { mu: adjustment.mu, phi: adjustment.phi, sigma: adjustment.sigma });
+    }
+
+    const matches = matchesData.sort(compareMatchTime);
+    const current = new Map(profilesData.map((p) => [p.id, p]));
+
+    const fromMatchId = voidMatchId ?? request.fromMatchId;
+    let startIndex = 0;
+    if (fromMatchId) {
+        startIndex = matches.findIndex((m) => m.id === fromMatchId);
+        if (startIndex < 0) {
+            throw new MatchNotFoundError(fromMatchId, { rated: true });
+        }
+    }
+
+    // --- 2. Reset every profile and replay in time order ---
+    const replayed = new Map([...current.keys()].map((id) => [id, defaultProfile(id, startingRatings.get(id))]));
+    // The voided match's players are rewritten even though the match itself is not replayed,
+    // and an adjusted player even if their matches were all skipped
+    const affected = new Set<string>([
+        ...(voidMatchId ? matchPlayerIds(matches[startIndex]) : []),
+        ...(adjustment ? [adjustment.player_id] : []),
+    ]);
+    const history: RatingHistoryEntry[] = [];
+    const skippedMatches: SkippedMatch[] = [];
+    let replayedMatches = 0;
+    const resolveConfig = createConfigResolver(supabaseAdmin);
+
+    for (const [index, match] of matches.entries()) {
+        if (match.id === voidMatchId) continue;
+        try {
+            assertValidPlayers(match);
+        } catch (error) {
+            skippedMatches.push({ matchId: match.id, reason: (error as Error).message, code: errorCode(error) });
+            continue;
+        }
+        const matchProfiles = lookupMatchProfiles(match, replayed);
+        if (!matchProfiles) {
+            const error = new ProfileMissingError(matchPlayerIds(match));
+            skippedMatches.push({ matchId: match.id, reason: error.message, code: error.code });
+            continue;
+        }
+        if (!hasRequiredScoreData(match)) {
+            skippedMatches.push({ matchId: match.id, reason: `Match ${match.id} is missing required score data (winner_id, sets).`, code: 'invalid_match' });
+            continue;
+        }
+
+        const config = await resolveConfig({ leagueId: match.league_id, seasonId: match.season_id });
+        if (!getEventCategory(match.event_category, config)) {
+            const error = new UnknownEventCategoryError(match.event_category, Object.keys(config.categories), match.id);
+            skippedMatches.push({ matchId: match.id, reason: error.message, code: error.code });
+            continue;
+        }
+        const scoreProblems = validateMatchScore(match, config);
+        if (scoreProblems.length > 0) {
+            const error = new ScoreValidationError(match.id, scoreProblems);
+            skippedMatches.push({ matchId: match.id, reason: error.message, code: error.code });
+            continue;
+        }
+        const update = computeMatchUpdate(match, matchProfiles, { config });
+        for (const profile of update.profiles_new) {
+            replayed.set(profile.id, profile);
+        }
+        replayedMatches++;
+
+        if (index >= startIndex) {
+            for (const profile of update.profiles_new) {
+                affected.add(profile.id);
+            }
+            history.push(...update.history);
+        }
+    }
+
+    // --- 3. Diff against the stored profiles ---
+    const changes: ProfileChange[] = [];
+    for (const [id, before] of current) {
+        if (fromMatchId && !affected.has(id)) continue;
+        const change = diffProfiles(before, replayed.get(id)!);
+        if (change) changes.push(change);
+    }
+
+    // --- 4. Commit atomically unless this is a dry run ---
+    if (!dryRun && (changes.length > 0 || voidMatchId || adjustment)) {
+        await applyRecomputedRatings(supabaseAdmin, changes, history, voidMatchId, adjustment);
+    }
+
+    return { success: true, dryRun, replayedMatches, skippedMatches, changes };
+}
@@ -0,0 +1,177 @@
+/**
+ * Match Rollback
+ *
+ * Reverts a rated match, e.g. one voided for fraud or entered with the wrong
+ * players. If none of its players has a later rated match, their profiles are
+ * restored exactly from the match's ledger rows. Otherwise every later match
+ * has to be replayed without it, which the caller must ask for explicitly.
+ * Either way the match's ledger rows are removed and its `rating_updated_at`
+ * cleared, in one transaction.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.8'
+import {
+    MatchData,
+    ProfileData,
+    MATCH_COLUMNS,
+    RatingHistoryEntry,
+    matchPlayerIds,
+    fetchMatchProfiles
+} from './processing.ts'
+import { ProfileChange, SkippedMatch, applyRecomputedRatings, diffProfiles, recomputeRatings } from './recompute.ts'
+import { DatabaseError, MatchNotFoundError, NO_ROWS_CODE } from './errors.ts'
+
+export interface RollbackRequest {
+    matchId: string;
+    replay?: boolean; // Allow replaying later matches when a plain restore is not possible; defaults to false
+    dryRun?: boolean; // Defaults to false: report the changes without committing them when true
+}
+
+/** How a rollback was (or would have to be) done. */
+export type RollbackMode = 'restored' | 'replayed' | 'replay_required';
+
+export interface RollbackResult {
+    success: boolean;       // False when a replay is required but was not allowed
+    matchId: string;
+    mode: RollbackMode;
+    dryRun: boolean;
+    reason: string | null;  // Why a replay is (or was) needed
+    laterMatchIds: string[]; // Later rated matches involving the match's players
+    replayedMatches: number; // Matches replayed; 0 for a restore
+    skippedMatches: SkippedMatch[];
+    changes: ProfileChange[];
+}
+
+/**
+ * Validates the rollback body. Returns an error message, or null if valid.
+ */
+export function validateRollbackRequest(body: RollbackRequest): string | null {
+    if (typeof body.matchId !== 'string' || !body.matchId) return 'matchId is required';
+    if (body.replay !== undefined && typeof body.replay !== 'boolean') return 'replay must be a boolean';
+    if (body.dryRun !== undefined && typeof body.dryRun !== 'boolean') return 'dryRun must be a boolean';
+    return null;
+}
+
+/** The profile as it was stored before the match, rebuilt from its ledger row. */
+function restoreProfile(profile: ProfileData, entry: RatingHistoryEntry): ProfileData {
+    const rating = entry.rating_type === 'doubles'
+        ? { doubles_mu: entry.mu_before, doubles_phi: entry.phi_before, doubles_sigma: entry.sigma_before }
+        : { rating_mu: entry.mu_before, rating_phi: entry.phi_before, rating_sigma: entry.sigma_before };
+    return {
+        ...profile,
+        ...rating,
+        wins: entry.wins_before,
+        losses: entry.losses_before,
+        last_played_at: entry.last_played_at_before,
+        rating_decayed_at: entry.rating_decayed_at_before,
+    };
+}
+
+/**
+ * IDs of rated matches that come after `match` and involve one of `playerIds`,
+ * in the same order `compareMatchTime` uses.
+ */
+async function findLaterMatches(
+    supabaseAdmin: SupabaseClient,
+    match: MatchData,
+    playedAt: string,
+    playerIds: string[]
+): Promise<string[]> {
+    const { data, error } = await supabaseAdmin
+        .from('rating_history')
+        .select('match_id, played_at')
+        .in('player_id', playerIds)
+        .gte('played_at', playedAt)
+        .returns<{ match_id: string, played_at: string }[]>();
+    if (error) throw new DatabaseError('Rating history fetch', error);
+
+    const matchTime = Date.parse(playedAt);
+    const later = (data ?? []).filter((row) => {
+        const time = Date.parse(row.played_at);
+        return row.match_id !== match.id && (time > matchTime || (time === matchTime && row.match_id.localeCompare(match.id) > 0));
+    });
+    return [...new Set(later.map((row) => row.match_id))];
+}
+
+/**
+ * Reverts a rated match. Restores the players' pre-match profiles when that is
+ * exact; otherwise replays every later match without it if `replay` is set,
+ * and reports `replay_required` without changing anything if it is not.
+ */
+export async function rollbackMatch(
+    supabaseAdmin: SupabaseClient,
+    request: RollbackRequest
+): Promise<RollbackResult> {
+    const matchId = request.matchId;
+    const dryRun = request.dryRun === true;
+
+    // --- 1. Fetch the match and its ledger rows ---
+    const { data: match, error: matchError } = await supabaseAdmin
+        .from('matches')
+        .select(MATCH_COLUMNS)
+        .eq('id', matchId)
+        .single<MatchData>();
+    if (matchError && matchError.code !== NO_ROWS_CODE) throw new DatabaseError('Match fetch', matchError);
+    if (!match?.rating_updated_at) {
+        throw new MatchNotFoundError(matchId, { rated: true });
+    }
+
+    const { data: historyData, error: historyError } = await supabaseAdmin
+        .from('rating_history')
+        .select('*')
+        .eq('match_id', matchId)
+        .returns<RatingHistoryEntry[]>();
+    if (historyError) throw new DatabaseError('Rating history fetch', historyError);
+    const history = historyData ?? [];
+
+    // --- 2. Decide between a restore and a replay ---
+    const playerIds = matchPlayerIds(match);
+    const playedAt = history[0]?.played_at ?? match.created_at ?? match.rating_updated_at;
+    const laterMatchIds = await findLaterMatches(supabaseAdmin, match, playedAt, playerIds);
+
+    // Rows written before the ledger kept the full pre-match profile cannot be restored from
+    const restorable = playerIds.every((id) => history.some((row) => row.player_id === id && row.wins_before != null));
+    let reason: string | null = null;
+    if (laterMatchIds.length > 0) {
+        reason = `${laterMatchIds.length} later rated match(es) involve this match's players and must be replayed.`;
+    } else if (!restorable) {
+        reason = 'The ledger rows for this match do not hold the pre-match profiles, so they must be rebuilt by a replay.';
+    } else if (history.some((row) => row.pool != null)) {
+        // The ledger does not keep a pool's last match time or the blended rating from before
+        reason = `The match was rated in pool ${history[0].pool}, and pool ratings are rebuilt by a replay.`;
+    }
+
+    const result = { matchId, dryRun, reason, laterMatchIds };
+
+    if (reason && !request.replay) {
+        return { ...result, success: false, mode: 'replay_required', replayedMatches: 0, skippedMatches: [], changes: [] };
+    }
+
+    // --- 3a. Replay every rated match without this one ---
+    if (reason) {
+        const recomputed = await recomputeRatings(supabaseAdmin, { dryRun }, { voidMatchId: matchId });
+        return {
+            ...result,
+            success: true,
+            mode: 'replayed',
+            replayedMatches: recomputed.replayedMatches,
+            skippedMatches: recomputed.skippedMatches,
+            changes: recomputed.changes,
+        };
+    }
+
+    // --- 3b. Restore the pre-match profiles from the ledger ---
+    const profiles = await fetchMatchProfiles(supabaseAdmin, match);
+    const changes = profiles.map((profile) => {
+        const restored = restoreProfile(profile, history.find((row) => row.player_id === profile.id)!);
+        // Every profile is written back, even without a rating difference, so its timestamps are restored too
+        return diffProfiles(profile, restored)
+            ?? { profileId: profile.id, before: profile, after: restored, delta: { mu: 0, phi: 0, sigma: 0, wins: 0, losses: 0 } };
+    });
+
+    if (!dryRun) {
+        await applyRecomputedRatings(supabaseAdmin, changes, [], matchId);
+    }
+
+    return { ...result, success: true, mode: 'restored', replayedMatches: 0, skippedMatches: [], changes };
+}
@@ -0,0 +1,108 @@
+/**
+ * Score Models
+ *
+ * Turns a match's score into the actual score S in [0, 1] that the rating
+ * update compares with the expected score. The config's `scoreModel` picks
+ * the model; see `ScoreModel` in glicko.ts. Every model is computed from
+ * side 1's perspective, side 2 scores 1 - S.
+ *
+ * A model falls back to game share when the score lacks what it needs: set
+ * share without a decided set, points won without point totals. The returned
+ * `model` is the one actually applied, so the ledger records it per match.
+ */
+
+import { GlickoTRConfig, ScoreModel, DEFAULT_CONFIG, getEventCategory } from './glicko.ts'
+
+/** One set of a score payload, as in `MatchData.score.sets`. */
+export interface SetScore {
+    p1: number;
+    p2: number;
+    tiebreak?: { p1: number, p2: number } | null;
+}
+
+/** What each side won over the whole match. */
+export interface ScoreTotals {
+    side1Won: boolean;
+    games: [number, number];         // Games, or points for point-scored categories
+    sets: [number, number] | null;   // Decided sets won; null when unknown
+    points: [number, number] | null; // Points won; null when the scorer did not track them
+}
+
+/** Side 1's actual score and the model that produced it. */
+export interface ModelScore {
+    score: number;
+    model: ScoreModel;
+}
+
+// A deciding set that reached this many is a match tiebreak, not a set of games
+const SUPER_TIEBREAK_TARGET = 10;
+
+function share(won: number, lost: number): number | null {
+    return won + lost > 0 ? won / (won + lost) : null;
+}
+
+/**
+ * Totals a score's sets. A set counts as decided for the side with more
+ * games in it; a level set (e.g. one abandoned at 2-2) counts for neither.
+ *
+ * In a games-scored category a deciding set at one set all that reached 10
+ * is a match tiebreak played instead of the set (no games set gets that far),
+ * so it counts as a single game to its winner rather than e.g. 10-7 games.
+ */
+export function totalsFromSets(
+    sets: SetScore[],
+    side1Won: boolean,
+    points: { p1: number, p2: number } | null = null,
+    scoreUnit: 'games' | 'points' = 'games'
+): ScoreTotals {
+    const games: [number, number] = [0, 0];
+    const setsWon: [number, number] = [0, 0];
+    sets.forEach((set, index) => {
+        const p1 = set.p1 || 0;
+        const p2 = set.p2 || 0;
+        const isDecider = index === sets.length - 1 && setsWon[0] === setsWon[1] && setsWon[0] > 0;
+        if (scoreUnit === 'games' && isDecider && Math.max(p1, p2) >= SUPER_TIEBREAK_TARGET) {
+            games[p1 > p2 ? 0 : 1] += 1;
+        } else {
+            games[0] += p1;
+            games[1] += p2;
+        }
+        if (p1 > p2) setsWon[0]++;
+        if (p2 > p1) setsWon[1]++;
+    });
+    return { side1Won, games, sets: setsWon, points: points ? [points.p1, points.p2] : null };
+}
+
+/**
+ * Side 1's actual score under the config's score model. For a point-scored
+ * category the game totals are already points, so 'points_won' uses them.
+ */
+export function modelScore(
+    totals: ScoreTotals,
+    eventCategory: string,
+    config: GlickoTRConfig = DEFAULT_CONFIG
+): ModelScore {
+    const { model, winWeight } = config.scoreModel;
+    const winLoss = totals.side1Won ? 1 : 0;
+    const gameShare = share(...totals.games) ?? 0.5;
+
+    switch (model) {
+        case 'win_loss':
+            return { score: winLoss, model };
+        case 'blend':
+            return { score: winWeight * winLoss + (1 - winWeight) * gameShare, model };
+        case 'set_share': {
+            const setShare = totals.sets ? share(...totals.sets) : null;
+            if (setShare !== null) return { score: setShare, model };
+            break;
+        }
+        case 'points_won': {
+            const points = totals.points
+                ?? (getEventCategory(eventCategory, config)?.scoreUnit === 'points' ? totals.games : null);
+            const pointShare = points ? share(...points) : null;
+            if (pointShare !== null) return { score: pointShare, model };
+            break;
+        }
+    }
+    return { score: gameShare, model: 'game_share' };
+}
@@ -0,0 +1,255 @@
+/**
+ * Rating Seeding and Overrides
+ *
+ * Lets an admin set a player's starting rating instead of the default, either
+ * from a self-reported level (an NTRP or UTR band mapped to mu and phi) or as
+ * an explicit override. Every change is recorded in `rating_adjustments` with
+ * its reason and the admin who made it, in the same transaction as the
+ * profile write.
+ *
+ * A starting rating only makes sense before the player's first rated match.
+ * Once they have one, seeding is refused unless the caller asks for a
+ * recompute: then the rated matches are replayed with the player starting
+ * from the new rating, and only players who take part in a match from the
+ * seeded player's first one onward are rewritten.
+ *
+ * A seed sets the singles rating (`rating_mu`, `rating_phi`, `rating_sigma`)
+ * only. A separate doubles rating and pool ratings still start from the
+ * default, in a replay as for a new player.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.8'
+import { PlayerRating, GlickoTRConfig, DEFAULT_CONFIG, createDefaultRating } from './glicko.ts'
+import { ProfileData, PROFILE_COLUMNS } from './processing.ts'
+import {
+    ProfileChange,
+    RatingAdjustment,
+    SkippedMatch,
+    applyRecomputedRatings,
+    diffProfiles,
+    recomputeRatings
+} from './recompute.ts'
+import { loadEnvConfig } from './config.ts'
+import { Caller } from './auth.ts'
+import { DatabaseError, NO_ROWS_CODE, PlayerAlreadyRatedError, ProfileMissingError } from './errors.ts'
+
+/** Rating scales a player can report their level on. */
+export type LevelSystem = 'ntrp' | 'utr';
+
+// A level band: every level from `min` up to the next band's `min` seeds `mu`
+interface LevelBand {
+    min: number;
+    mu: number;
+}
+
+interface LevelScale {
+    range: [number, number]; // Lowest and highest level on the scale
+    phi: number;             // How far a level on this scale is trusted
+    bands: LevelBand[];      // In ascending order of `min`
+}
+
+/**
+ * Level bands per scale. NTRP is self-rated, so it seeds a wider phi than
+ * UTR, which is computed from results. A 3.5 NTRP or a 7 UTR player starts
+ * at the default 1500.
+ */
+export const LEVEL_SCALES: Readonly<Record<LevelSystem, LevelScale>> = Object.freeze({
+    ntrp: {
+        range: [1.0, 7.0],
+        phi: 200,
+        bands: [
+            { min: 1.0, mu: 1000 },
+            { min: 2.0, mu: 1125 },
+            { min: 2.5, mu: 1250 },
+            { min: 3.0, mu: 1375 },
+            { min: 3.5, mu: 1500 },
+            { min: 4.0, mu: 1625 },
+            { min: 4.5, mu: 1750 },
+            { min: 5.0, mu: 1900 },
+            { min: 5.5, mu: 2050 },
+            { min: 6.0, mu: 2200 },
+        ],
+    },
+    utr: {
+        range: [1, 16.5],
+        phi: 150,
+        bands: [
+            { min: 1, mu: 1000 },
+            { min: 3, mu: 1150 },
+            { min: 5, mu: 1300 },
+            { min: 6, mu: 1400 },
+            { min: 7, mu: 1500 },
+            { min: 8, mu: 1600 },
+            { min: 9, mu: 1700 },
+            { min: 10, mu: 1800 },
+            { min: 11, mu: 1900 },
+            { min: 12, mu: 2000 },
+            { min: 13, mu: 2125 },
+            { min: 14, mu: 2250 },
+        ],
+    },
+});
+
+export interface SeedRequest {
+    playerId: string;
+    level?: { system: LevelSystem, value: number };   // Seed from a reported level...
+    rating?: { mu: number, phi: number, sigma?: number }; // ...or set the rating explicitly
+    reason: string;      // Recorded with the adjustment
+    recompute?: boolean; // Allow replaying the player's rated matches from the new rating; defaults to false
+    dryRun?: boolean;    // Defaults to false: report the changes without committing them when true
+}
+
+/** How the rating was (or would be) set. */
+export type SeedMode = 'seeded' | 'recomputed';
+
+export interface SeedResult {
+    success: boolean;
+    playerId: string;
+    mode: SeedMode;
+    dryRun: boolean;
+    adjustment: RatingAdjustment;
+    replayedMatches: number; // Matches replayed; 0 when the player had none
+    skippedMatches: SkippedMatch[];
+    changes: ProfileChange[];
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && isFinite(value);
+}
+
+/**
+ * Validates the seed body. Returns an error message, or null if valid.
+ */
+export function validateSeedRequest(body: SeedRequest): string | null {
+    if (typeof body.playerId !== 'string' || !body.playerId) return 'playerId is required';
+    if (typeof body.reason !== 'string' || !body.reason.trim()) return 'reason is required';
+    if ((body.level === undefined) === (body.rating === undefined)) return 'send either level or rating';
+
+    if (body.level !== undefined) {
+        if (!body.level || typeof body.level !== 'object') return 'level must be an object with system and value';
+        const systems = Object.keys(LEVEL_SCALES);
+        if (!systems.includes(body.level.system)) return `level.system must be one of ${systems.join(', ')}`;
+        const [low, high] = LEVEL_SCALES[body.level.system].range;
+        if (!isFiniteNumber(body.level.value) || body.level.value < low || body.level.value > high) {
+            return `level.value must be a number from ${low} to ${high} for ${body.level.system}`;
+        }
+    }
+    if (body.rating !== undefined) {
+        if (!body.rating || typeof body.rating !== 'object') return 'rating must be an object with mu and phi';
+        const { mu, phi, sigma } = body.rating;
+        if (!isFiniteNumber(mu) || !isFiniteNumber(phi) || phi <= 0) {
+            return 'rating must have a numeric mu and a positive phi';
+        }
+        if (sigma !== undefined && (!isFiniteNumber(sigma) || sigma <= 0)) return 'rating.sigma must be a positive number';
+    }
+    if (body.recompute !== undefined && typeof body.recompute !== 'boolean') return 'recompute must be a boolean';
+    if (body.dryRun !== undefined && typeof body.dryRun !== 'boolean') return 'dryRun must be a boolean';
+    return null;
+}
+
+/**
+ * The starting rating for a level on a scale: the mu of the band the level
+ * falls in and the scale's phi, capped at the config's default phi.
+ */
+export function ratingForLevel(system: LevelSystem, value: number, config: GlickoTRConfig = DEFAULT_CONFIG): PlayerRating {
+    const scale = LEVEL_SCALES[system];
+    const band = [...scale.bands].reverse().find((b) => value >= b.min) ?? scale.bands[0];
+    const defaults = createDefaultRating(config);
+    return { mu: band.mu, phi: Math.min(scale.phi, defaults.phi), sigma: defaults.sigma };
+}
+
+/** The rating the request asks for. */
+function requestedRating(request: SeedRequest, config: GlickoTRConfig): PlayerRating {
+    if (request.level) return ratingForLevel(request.level.system, request.level.value, config);
+    const rating = request.rating!;
+    return { mu: rating.mu, phi: rating.phi, sigma: rating.sigma ?? createDefaultRating(config).sigma };
+}
+
+/** The player's first rated match in the ledger, in replay order; null if they have none. */
+async function firstRatedMatchId(supabaseAdmin: SupabaseClient, playerId: string): Promise<string | null> {
+    const { data, error } = await supabaseAdmin
+        .from('rating_history')
+        .select('match_id')
+        .eq('player_id', playerId)
+        .order('played_at', { ascending: true })
+        .order('match_id', { ascending: true })
+        .limit(1)
+        .returns<{ match_id: string }[]>();
+    if (error) throw new DatabaseError('Rating history fetch', error);
+    return data?.[0]?.match_id ?? null;
+}
+
+/**
+ * Sets a player's starting rating and records the adjustment. A player
+ * without rated matches gets the rating written directly; a player with
+ * rated matches needs `recompute`, which replays from their first one.
+ */
+export async function seedPlayerRating(
+    supabaseAdmin: SupabaseClient,
+    request: SeedRequest,
+    caller: Caller
+): Promise<SeedResult> {
+    const playerId = request.playerId;
+    const dryRun = request.dryRun === true;
+
+    const { data: profile, error: profileError } = await supabaseAdmin
+        .from('profiles')
+        .select(PROFILE_COLUMNS)
+        .eq('id', playerId)
+        .single<ProfileData>();
+    if (profileError && profileError.code !== NO_ROWS_CODE) throw new DatabaseError('Profile fetch', profileError);
+    if (!profile) throw new ProfileMissingError([playerId]);
+
+    const firstMatchId = await firstRatedMatchId(supabaseAdmin, playerId);
+    const rated = firstMatchId !== null;
+    if (rated && !request.recompute) {
+        throw new PlayerAlreadyRatedError(playerId);
+    }
+
+    // The same config a recompute resets profiles with
+    const rating = requestedRating(request, loadEnvConfig());
+    const adjustment: RatingAdjustment = {
+        player_id: playerId,
+        kind: request.level ? 'level' : 'override',
+        level_system: request.level?.system ?? null,
+        level_value: request.level?.value ?? null,
+        mu_before: profile.rating_mu,
+        phi_before: profile.rating_phi,
+        sigma_before: profile.rating_sigma,
+        mu: rating.mu,
+        phi: rating.phi,
+        sigma: rating.sigma,
+        reason: request.reason.trim(),
+        actor_id: caller.userId,
+        actor_via: caller.via,
+        recomputed: rated,
+        created_at: new Date().toISOString(),
+    };
+    const result = { playerId, dryRun, adjustment };
+
+    // --- Rated matches: replay with the player starting from the new rating ---
+    if (rated) {
+        // Nobody the player has not met, directly or through later opponents, can change
+        const recomputed = await recomputeRatings(supabaseAdmin, { dryRun, fromMatchId: firstMatchId }, { adjustment });
+        return {
+            ...result,
+            success: true,
+            mode: 'recomputed',
+            replayedMatches: recomputed.replayedMatches,
+            skippedMatches: recomputed.skippedMatches,
+            changes: recomputed.changes,
+        };
+    }
+
+    // --- No rated matches: write the rating to the profile ---
+    const seeded = { ...profile, rating_mu: rating.mu, rating_phi: rating.phi, rating_sigma: rating.sigma };
+    // The profile is written even if the rating is unchanged, so the adjustment is recorded with it
+    const change = diffProfiles(profile, seeded)
+        ?? { profileId: playerId, before: profile, after: seeded, delta: { mu: 0, phi: 0, sigma: 0, wins: 0, losses: 0 } };
+
+    if (!dryRun) {
+        await applyRecomputedRatings(supabaseAdmin, [change], [], null, adjustment);
+    }
+
+    return { ...result, success: true, mode: 'seeded', replayedMatches: 0, skippedMatches: [], changes: [change] };
+}
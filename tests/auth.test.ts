@@ -0,0 +1,84 @@
+/**
+ * Authorization decisions for locally signed JWTs and the admin secret.
+ */
+
+import { assertEquals, assertRejects, assertThrows } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import { assertCanRateMatch, authenticate, callerFromClaims, requireAdmin, verifyJwt } from '../auth.ts'
+import { ForbiddenError, UnauthorizedError } from '../errors.ts'
+import { TEST_JWT_SECRET, playerToken, signJwt } from './jwt.ts'
+
+function request(headers: Record<string, string>): Request {
+    return new Request('http://localhost/functions/v1/glicko-update', { method: 'POST', headers });
+}
+
+Deno.test('verifyJwt: accepts a valid token and rejects tampered, expired and unsigned ones', async () => {
+    const token = await playerToken('player-a');
+    assertEquals((await verifyJwt(token, TEST_JWT_SECRET)).sub, 'player-a');
+
+    const [header, , signature] = token.split('.');
+    const [, forgedClaims] = (await signJwt({ sub: 'player-a', role: 'service_role' }, 'attacker-secret')).split('.');
+    await assertRejects(() => verifyJwt(`${header}.${forgedClaims}.${signature}`, TEST_JWT_SECRET), UnauthorizedError, 'signature');
+    await assertRejects(() => verifyJwt(token, 'another-secret'), UnauthorizedError, 'signature');
+
+    const expired = await signJwt({ sub: 'player-a', exp: Math.floor(Date.now() / 1000) - 10 });
+    await assertRejects(() => verifyJwt(expired, TEST_JWT_SECRET), UnauthorizedError, 'expired');
+
+    const unsigned = await signJwt({ sub: 'player-a' }, TEST_JWT_SECRET, { alg: 'none' });
+    await assertRejects(() => verifyJwt(unsigned, TEST_JWT_SECRET), UnauthorizedError, 'algorithm');
+    await assertRejects(() => verifyJwt('not-a-token', TEST_JWT_SECRET), UnauthorizedError, 'malformed');
+});
+
+Deno.test('callerFromClaims: service role and admin app role are admins, everyone else a player', () => {
+    assertEquals(callerFromClaims({ sub: 'u1', role: 'authenticated' }).role, 'player');
+    assertEquals(callerFromClaims({ sub: 'u1', role: 'authenticated', app_metadata: { role: 'admin' } }).role, 'admin');
+    assertEquals(callerFromClaims({ role: 'service_role' }).role, 'admin');
+    // user_metadata is writable by the user, so it never grants admin
+    assertEquals(callerFromClaims({ sub: 'u1', role: 'authenticated', user_metadata: { role: 'admin' } }).role, 'player');
+});
+
+/** Runs `fn` with the variables set (or unset for undefined), then restores them. */
+async function withEnv(values: Record<string, string | undefined>, fn: () => Promise<void>): Promise<void> {
+    const previous = Object.fromEntries(Object.keys(values).map((name) => [name, Deno.env.get(name)]));
+    const apply = (vars: Record<string, string | undefined>) => {
+        for (const [name, value] of Object.entries(vars)) {
+            if (value === undefined) Deno.env.delete(name);
+            else Deno.env.set(name, value);
+        }
+    };
+    apply(values);
+    try {
+        await fn();
+    } finally {
+        apply(previous);
+    }
+}
+
+Deno.test('authenticate: needs a bearer token or the admin secret', async () => {
+    await withEnv({ JWT_SECRET: TEST_JWT_SECRET, ADMIN_SECRET: 'admin-secret' }, async () => {
+        await assertRejects(() => authenticate(request({})), UnauthorizedError);
+        await assertRejects(() => authenticate(request({ 'x-admin-secret': 'wrong' })), UnauthorizedError);
+
+        assertEquals(await authenticate(request({ 'x-admin-secret': 'admin-secret' })), { role: 'admin', userId: null, via: 'admin_secret' });
+        const caller = await authenticate(request({ Authorization: `Bearer ${await playerToken('player-a')}` }));
+        assertEquals(caller, { role: 'player', userId: 'player-a', via: 'jwt' });
+    });
+
+    // Without JWT_SECRET no token is accepted
+    const token = await playerToken('player-a');
+    await withEnv({ JWT_SECRET: undefined }, async () => {
+        await assertRejects(() => authenticate(request({ Authorization: `Bearer ${token}` })), UnauthorizedError, 'JWT_SECRET');
+    });
+});
+
+Deno.test('authorization: players rate only their own matches, admins act on any', () => {
+    const player = { role: 'player' as const, userId: 'player-a', via: 'jwt' as const };
+    const admin = { role: 'admin' as const, userId: null, via: 'admin_secret' as const };
+
+    assertCanRateMatch(player, 'match-1', ['player-a', 'player-b']);
+    assertThrows(() => assertCanRateMatch(player, 'match-2', ['player-c', 'player-d']), ForbiddenError);
+    assertThrows(() => assertCanRateMatch({ ...player, userId: null }, 'match-1', ['player-a', 'player-b']), ForbiddenError);
+    assertCanRateMatch(admin, 'match-2', ['player-c', 'player-d']);
+
+    assertThrows(() => requireAdmin(player, 'recompute'), ForbiddenError, 'recompute');
+    requireAdmin(admin, 'recompute');
+});
@@ -0,0 +1,56 @@
+/**
+ * Tests for the replay and calibration harness: a small CSV season is parsed,
+ * replayed from default ratings, and scored.
+ */
+
+import { assertAlmostEquals, assertEquals, assertThrows } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import { parseCountOption, parseHistoricalMatches, rankByLogLoss, replayMatches } from '../calibrate.ts'
+
+const SEASON_CSV = [
+    'id,played_at,player1_id,player2_id,p1_games,p2_games,winner_id,status,event_category,is_public_event',
+    'm1,2024-05-01T10:00:00Z,alice,bob,12,8,alice,completed,standard_match,false',
+    'm2,2024-05-02T10:00:00Z,carol,dave,0,0,carol,walkover,standard_match,false',
+    'm3,2024-05-03T10:00:00Z,alice,carol,6,4,alice,completed,beach_tennis,false',
+].join('\n');
+
+Deno.test('calibrate: replays a CSV season and scores each prediction', () => {
+    const matches = parseHistoricalMatches(SEASON_CSV, 'csv');
+    assertEquals(matches.map((m) => m.id), ['m1', 'm2', 'm3']);
+
+    const metrics = replayMatches(matches);
+    // Only m1 is scored: two default ratings predict 0.5 against a 12-8 win
+    assertEquals(metrics.scoredMatches, 1);
+    assertAlmostEquals(metrics.logLoss, Math.LN2, 1e-12);
+    assertAlmostEquals(metrics.brier, 0.25, 1e-12);
+    assertAlmostEquals(metrics.gameShareMae, 0.1, 1e-12);
+    assertEquals(metrics.calibration[5].count, 1);
+
+    // The walkover replays without weight; the unknown category is not replayed, and says why
+    assertEquals(metrics.unweightedMatches, 1);
+    assertEquals(metrics.skippedMatches.map((s) => [s.matchId, s.code]), [['m3', 'unknown_event_category']]);
+});
+
+Deno.test('calibrate: the warm-up leaves early matches out of the metrics', () => {
+    const metrics = replayMatches(parseHistoricalMatches(SEASON_CSV, 'csv'), undefined, { warmup: 1 });
+    assertEquals(metrics.scoredMatches, 0);
+    assertEquals(Number.isNaN(metrics.logLoss), true);
+});
+
+Deno.test('calibrate: a run that scores nothing ranks after every scored run', () => {
+    const matches = parseHistoricalMatches(SEASON_CSV, 'csv');
+    const unscored = replayMatches(matches, undefined, { warmup: 1, label: 'unscored' });
+    const worse = { ...replayMatches(matches, undefined, { label: 'worse' }), logLoss: 0.9 };
+    const better = { ...replayMatches(matches, undefined, { label: 'better' }), logLoss: 0.6 };
+
+    for (const order of [[unscored, worse, better], [worse, unscored, better], [better, worse, unscored]]) {
+        assertEquals(rankByLogLoss(order).map((r) => r.label), ['better', 'worse', 'unscored']);
+    }
+});
+
+Deno.test('calibrate: numeric options must be whole numbers', () => {
+    assertEquals(parseCountOption('--warmup', undefined, 0), 0);
+    assertEquals(parseCountOption('--warmup', '5', 0), 5);
+    for (const value of ['five', '', '-1', '2.5']) {
+        assertThrows(() => parseCountOption('--warmup', value, 0), Error, '--warmup');
+    }
+});
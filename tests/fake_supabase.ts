@@ -0,0 +1,254 @@
+/**
+ * In-memory stand-in for the parts of the Supabase client the function uses:
+ * table queries with simple filters, updates, and RPC calls. RPCs are plain
+ * functions registered per name, so a test can model the database side.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.8'
+
+type Row = Record<string, unknown>;
+type Filter = (row: Row) => boolean;
+
+export interface FakeError {
+    message: string;
+    code: string;
+    details: string;
+    hint: string;
+}
+
+export interface FakeResult {
+    data: unknown;
+    error: FakeError | null;
+}
+
+export type RpcHandler = (params: Record<string, unknown>, db: FakeSupabase) => FakeResult;
+
+// PostgREST's default `max-rows`: no request returns more rows than this
+export const MAX_ROWS = 1000;
+
+export function fakeError(message: string, code = 'P0001'): FakeError {
+    return { message, code, details: '', hint: '' };
+}
+
+class FakeQuery implements PromiseLike<FakeResult> {
+    private filters: Filter[] = [];
+    private sortBy: { column: string, ascending: boolean }[] = [];
+    private maxRows: number | null = null;
+    private offset = 0;
+    private singleRow = false;
+    private updateValues: Row | null = null;
+    private returnUpdated = false;
+
+    constructor(private db: FakeSupabase, private table: string) {}
+
+    select(_columns?: string): this {
+        // After an update, select() asks for the updated rows back
+        if (this.updateValues) this.returnUpdated = true;
+        return this;
+    }
+
+    update(values: Row): this {
+        this.updateValues = values;
+        return this;
+    }
+
+    eq(column: string, value: unknown): this {
+        this.filters.push((row) => row[column] === value);
+        return this;
+    }
+
+    in(column: string, values: unknown[]): this {
+        this.filters.push((row) => values.includes(row[column]));
+        return this;
+    }
+
+    is(column: string, value: null): this {
+        this.filters.push((row) => (row[column] ?? null) === value);
+        return this;
+    }
+
+    not(column: string, operator: 'is', value: null): this {
+        if (operator !== 'is') throw new Error(`FakeSupabase: unsupported not operator ${operator}`);
+        this.filters.push((row) => (row[column] ?? null) !== value);
+        return this;
+    }
+
+    lte(column: string, value: string | number): this {
+        this.filters.push((row) => (row[column] as string | number) <= value);
+        return this;
+    }
+
+    gte(column: string, value: string | number): this {
+        this.filters.push((row) => (row[column] as string | number) >= value);
+        return this;
+    }
+
+    order(column: string, options: { ascending?: boolean } = {}): this {
+        this.sortBy.push({ column, ascending: options.ascending !== false });
+        return this;
+    }
+
+    limit(count: number): this {
+        this.maxRows = count;
+        return this;
+    }
+
+    range(from: number, to: number): this {
+        this.offset = from;
+        this.maxRows = to - from + 1;
+        return this;
+    }
+
+    single<T>(): PromiseLike<{ data: T | null, error: FakeError | null }> {
+        this.singleRow = true;
+        return this as unknown as PromiseLike<{ data: T | null, error: FakeError | null }>;
+    }
+
+    returns<T>(): PromiseLike<{ data: T | null, error: FakeError | null }> {
+        return this as unknown as PromiseLike<{ data: T | null, error: FakeError | null }>;
+    }
+
+    private execute(): FakeResult {
+        const rows = this.db.table(this.table).filter((row) => this.filters.every((f) => f(row)));
+
+        if (this.updateValues) {
+            for (const row of rows) Object.assign(row, this.updateValues);
+            return { data: this.returnUpdated ? rows.map((row) => structuredClone(row)) : null, error: null };
+        }
+
+        let result = rows.map((row) => structuredClone(row));
+        result.sort((a, b) => {
+            for (const { column, ascending } of this.sortBy) {
+                const order = (a[column] as string) < (b[column] as string) ? -1 : (a[column] as string) > (b[column] as string) ? 1 : 0;
+                if (order !== 0) return ascending ? order : -order;
+            }
+            return 0;
+        });
+        result = result.slice(this.offset, this.offset + Math.min(this.maxRows ?? MAX_ROWS, MAX_ROWS));
+
+        if (this.singleRow) {
+            // Same error PostgREST returns for .single() without exactly one row
+            return result.length === 1
+                ? { data: result[0], error: null }
+                : { data: null, error: fakeError('JSON object requested, multiple (or no) rows returned', 'PGRST116') };
+        }
+        return { data: result, error: null };
+    }
+
+    then<T1 = FakeResult, T2 = never>(
+        onfulfilled?: ((value: FakeResult) => T1 | PromiseLike<T1>) | null,
+        onrejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+    ): PromiseLike<T1 | T2> {
+        return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+    }
+}
+
+export class FakeSupabase {
+    tables: Record<string, Row[]>;
+    rpcCalls: { name: string, params: Record<string, unknown> }[] = [];
+    private rpcHandlers: Record<string, RpcHandler> = {};
+
+    constructor(tables: Record<string, Row[]> = {}) {
+        this.tables = structuredClone(tables);
+    }
+
+    /** The live rows of a table, created empty on first use. */
+    table(name: string): Row[] {
+        this.tables[name] ??= [];
+        return this.tables[name];
+    }
+
+    onRpc(name: string, handler: RpcHandler): this {
+        this.rpcHandlers[name] = handler;
+        return this;
+    }
+
+    from(table: string): FakeQuery {
+        return new FakeQuery(this, table);
+    }
+
+    rpc(name: string, params: Record<string, unknown> = {}): Promise<FakeResult> {
+        this.rpcCalls.push({ name, params: structuredClone(params) });
+        const handler = this.rpcHandlers[name];
+        if (!handler) {
+            return Promise.resolve({ data: null, error: fakeError(`Could not find the function public.${name}`, 'PGRST202') });
+        }
+        return Promise.resolve(handler(params, this));
+    }
+
+    /** This fake, typed as the real client for code under test. */
+    asClient(): SupabaseClient {
+        return this as unknown as SupabaseClient;
+    }
+}
+
+// SQL's greatest() over two nullable ISO timestamps
+function latest(stored: unknown, playedAt: unknown): unknown {
+    return typeof stored === 'string' && stored > (playedAt as string) ? stored : playedAt;
+}
+
+/**
+ * Models `update_ratings_transaction` the way the README describes it: refuses
+ * rated matches and stale profile versions, then writes both profiles, the
+ * ledger and the match in one step.
+ */
+export const updateRatingsTransaction: RpcHandler = (params, db) => {
+    const match = db.table('matches').find((m) => m.id === params.p_match_id);
+    if (!match) return { data: null, error: fakeError(`match ${params.p_match_id} not found`) };
+    if (match.rating_updated_at) return { data: null, error: fakeError('match_already_rated') };
+
+    const sides = ['p1', 'p2'].map((side) => ({
+        side,
+        profile: db.table('profiles').find((p) => p.id === params[`${side}_id`])!,
+    }));
+    if (sides.some(({ side, profile }) => profile.rating_version !== params[`${side}_expected_version`])) {
+        return { data: null, error: fakeError('rating_version_conflict') };
+    }
+
+    for (const { side, profile } of sides) {
+        Object.assign(profile, {
+            rating_mu: params[`${side}_mu`],
+            rating_phi: params[`${side}_phi`],
+            rating_sigma: params[`${side}_sigma`],
+            wins: params[`${side}_wins`],
+            losses: params[`${side}_losses`],
+            rating_version: (profile.rating_version as number) + 1,
+            pool_ratings: params[`${side}_pool_ratings`],
+            ...(params.p_rated ? {
+                last_played_at: latest(profile.last_played_at, params.p_played_at),
+                rating_decayed_at: latest(profile.rating_decayed_at, params.p_played_at),
+            } : {}),
+        });
+    }
+    db.table('rating_history').push(...structuredClone(params.p_history as Row[]));
+    Object.assign(match, { rating_updated_at: params.p_match_time, config_version: params.p_config_version });
+    return { data: null, error: null };
+};
+
+/**
+ * Models `apply_recomputed_ratings`: refuses stale profile versions, then
+ * writes the profiles, replaces the replayed matches' ledger rows, un-rates
+ * `p_void_match_id` and records `p_adjustment` in one step.
+ */
+export const applyRecomputedRatings: RpcHandler = (params, db) => {
+    const updates = (params.p_profiles as Row[]).map((row) => ({
+        row,
+        profile: db.table('profiles').find((p) => p.id === row.id)!,
+    }));
+    if (updates.some(({ row, profile }) => profile.rating_version !== row.rating_version)) {
+        return { data: null, error: fakeError('rating_version_conflict') };
+    }
+
+    for (const { row, profile } of updates) {
+        Object.assign(profile, structuredClone(row), { rating_version: (row.rating_version as number) + 1 });
+    }
+    const history = structuredClone(params.p_history as Row[]);
+    const replaced = new Set([params.p_void_match_id, ...history.map((row) => row.match_id)]);
+    db.tables.rating_history = db.table('rating_history').filter((row) => !replaced.has(row.match_id));
+    db.table('rating_history').push(...history);
+
+    const voided = db.table('matches').find((m) => m.id === params.p_void_match_id);
+    if (voided) Object.assign(voided, { rating_updated_at: null, config_version: null });
+    if (params.p_adjustment) db.table('rating_adjustments').push(structuredClone(params.p_adjustment as Row));
+    return { data: null, error: null };
+};
@@ -0,0 +1,137 @@
+/**
+ * Property tests for `calculateGlickoTRUpdate` over randomly generated
+ * matches. A seeded generator keeps every run reproducible.
+ */
+
+import { assert, assertAlmostEquals, assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import { PlayerRating, blendRatings, calculateGlickoTRUpdate } from '../glicko.ts'
+
+const RUNS = 500;
+const SCALING_FACTOR = 173.7178;
+const CATEGORIES = ['standard_match', 'tiebreak_event', 'pro_set', 'fast4', 'match_tiebreak'];
+
+/** Park-Miller generator: deterministic numbers in [0, 1). */
+function createRandom(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state * 16807) % 2147483647;
+        return (state - 1) / 2147483646;
+    };
+}
+
+function randomRating(random: () => number): PlayerRating {
+    return {
+        mu: 1000 + random() * 1000,
+        phi: 30 + random() * 320,
+        sigma: 0.03 + random() * 0.06,
+    };
+}
+
+function randomMatch(random: () => number) {
+    const playerGames = Math.floor(random() * 20);
+    return {
+        playerGames,
+        // At least one game (or point) is always played
+        opponentGames: Math.floor(random() * 20) + (playerGames === 0 ? 1 : 0),
+        status: random() < 0.8 ? 'completed' : 'retired',
+        eventCategory: CATEGORIES[Math.floor(random() * CATEGORIES.length)],
+        isPublicEvent: random() < 0.3,
+    };
+}
+
+Deno.test('equal phi and sigma: mu moves by the same amount in opposite directions', () => {
+    const random = createRandom(1);
+    for (let i = 0; i < RUNS; i++) {
+        const phi = 30 + random() * 320;
+        const sigma = 0.03 + random() * 0.06;
+        const player = { mu: 1200 + random() * 600, phi, sigma };
+        const opponent = { mu: 1200 + random() * 600, phi, sigma };
+        const m = randomMatch(random);
+        const result = calculateGlickoTRUpdate(player, opponent, m.playerGames, m.opponentGames, m.status, m.eventCategory, m.isPublicEvent);
+
+        const playerDelta = result.player_new.mu - player.mu;
+        const opponentDelta = result.opponent_new.mu - opponent.mu;
+        assertAlmostEquals(playerDelta + opponentDelta, 0, 1e-6, `run ${i}: ${playerDelta} vs ${opponentDelta}`);
+    }
+});
+
+Deno.test('positive-weight match: phi never grows beyond the pre-period step', () => {
+    // Glicko-2 first inflates phi to sqrt(phi^2 + sigma'^2), then shrinks it by
+    // the match's information. A confident player against a clamped expected
+    // score can end slightly above the old phi, but never above the inflated one.
+    const random = createRandom(2);
+    for (let i = 0; i < RUNS; i++) {
+        const player = randomRating(random);
+        const opponent = randomRating(random);
+        const m = randomMatch(random);
+        const result = calculateGlickoTRUpdate(player, opponent, m.playerGames, m.opponentGames, m.status, m.eventCategory, m.isPublicEvent);
+        if (result.match_weight <= 0) continue;
+
+        const inflatedPhi = Math.sqrt(player.phi ** 2 + (result.player_new.sigma * SCALING_FACTOR) ** 2);
+        assert(result.player_new.phi <= inflatedPhi + 1e-9, `run ${i}: phi ${player.phi} -> ${result.player_new.phi}`);
+    }
+});
+
+Deno.test('positive-weight match against an equal opponent: phi never increases', () => {
+    // For very certain, volatile players the sigma step alone can outweigh one
+    // match, so the strict property is checked for phi >= 100 and sigma <= 0.06.
+    const random = createRandom(3);
+    for (let i = 0; i < RUNS; i++) {
+        const player = { mu: 1000 + random() * 1000, phi: 100 + random() * 250, sigma: 0.03 + random() * 0.03 };
+        const m = randomMatch(random);
+        const result = calculateGlickoTRUpdate(player, { ...player }, m.playerGames, m.opponentGames, 'completed', 'standard_match', m.isPublicEvent);
+        assert(result.match_weight > 0);
+        assert(result.player_new.phi <= player.phi, `run ${i}: phi ${player.phi} -> ${result.player_new.phi}`);
+        assert(result.opponent_new.phi <= player.phi, `run ${i}: phi ${player.phi} -> ${result.opponent_new.phi}`);
+    }
+});
+
+Deno.test('walkover: weight 0 returns both ratings unchanged', () => {
+    const random = createRandom(4);
+    for (let i = 0; i < RUNS; i++) {
+        const player = randomRating(random);
+        const opponent = randomRating(random);
+        const m = randomMatch(random);
+        const result = calculateGlickoTRUpdate(player, opponent, m.playerGames, m.opponentGames, 'walkover', m.eventCategory, m.isPublicEvent);
+
+        assertEquals(result.match_weight, 0);
+        assertEquals(result.player_new, player);
+        assertEquals(result.opponent_new, opponent);
+    }
+});
+
+Deno.test('determineSigma: new sigma is always finite and positive', () => {
+    const random = createRandom(5);
+    for (let i = 0; i < RUNS; i++) {
+        // Include extreme ratings and deviations to stress the volatility solver
+        const player = { mu: random() * 5000, phi: 1 + random() * 600, sigma: 0.001 + random() * 0.3 };
+        const opponent = { mu: random() * 5000, phi: 1 + random() * 600, sigma: 0.001 + random() * 0.3 };
+        const m = randomMatch(random);
+        const result = calculateGlickoTRUpdate(
+            player, opponent, m.playerGames, m.opponentGames, m.status, m.eventCategory, m.isPublicEvent, { detailed: true }
+        );
+
+        for (const side of [result.breakdown!.player, result.breakdown!.opponent]) {
+            assert(Number.isFinite(side.sigmaAfter) && side.sigmaAfter > 0, `run ${i}: sigma ${side.sigmaAfter}`);
+        }
+        for (const rating of [result.player_new, result.opponent_new]) {
+            assert([rating.mu, rating.phi, rating.sigma].every(Number.isFinite), `run ${i}: ${JSON.stringify(rating)}`);
+        }
+    }
+});
+
+Deno.test('blendRatings: the blend lies within the pool ratings and favours certain pools', () => {
+    const random = createRandom(6);
+    for (let i = 0; i < RUNS; i++) {
+        const pools = Array.from({ length: 1 + Math.floor(random() * 4) }, () => randomRating(random));
+        const blend = blendRatings(pools)!;
+        for (const key of ['mu', 'phi', 'sigma'] as const) {
+            const values = pools.map((r) => r[key]);
+            assert(blend[key] >= Math.min(...values) - 1e-9 && blend[key] <= Math.max(...values) + 1e-9, `run ${i}: ${key} ${blend[key]}`);
+        }
+    }
+
+    const blend = blendRatings([{ mu: 1800, phi: 50, sigma: 0.06 }, { mu: 1400, phi: 300, sigma: 0.06 }])!;
+    assert(blend.mu > 1780, `certain pool should dominate, got ${blend.mu}`);
+    assertEquals(blendRatings([]), null);
+});
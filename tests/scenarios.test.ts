@@ -0,0 +1,98 @@
+/**
+ * Golden scenarios: each `scenarioN_expected.json` fixture paired with the
+ * match that produced it. The fixtures hold the exact `player_new` and
+ * `opponent_new` ratings from `calculateGlickoTRUpdate`.
+ */
+
+import { assertAlmostEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import { PlayerRating, calculateGlickoTRUpdate } from '../glicko.ts'
+
+// The volatility step stops once its bracket is within EPSILON of the root, so
+// ratings match the fixtures to far better than a rating point but not to the last digit
+const TOLERANCE = 1e-8;
+
+interface Scenario {
+    fixture: string;
+    description: string;
+    player: PlayerRating;
+    opponent: PlayerRating;
+    playerGames: number;
+    opponentGames: number;
+    status: string;
+    eventCategory: string;
+    isPublicEvent: boolean;
+}
+
+const SCENARIOS: Scenario[] = [
+    {
+        fixture: 'scenario1_expected.json',
+        description: 'two new players, 13-8 completed match',
+        player: { mu: 1500, phi: 350, sigma: 0.06 },
+        opponent: { mu: 1500, phi: 350, sigma: 0.06 },
+        playerGames: 13,
+        opponentGames: 8,
+        status: 'completed',
+        eventCategory: 'standard_match',
+        isPublicEvent: false,
+    },
+    {
+        fixture: 'scenario2_expected.json',
+        description: 'lower rated, less certain player takes 13 of 23 games off a stronger opponent',
+        player: { mu: 1400, phi: 150, sigma: 0.05 },
+        opponent: { mu: 1700, phi: 100, sigma: 0.04 },
+        playerGames: 13,
+        opponentGames: 10,
+        status: 'completed',
+        eventCategory: 'standard_match',
+        isPublicEvent: false,
+    },
+    {
+        fixture: 'scenario3_expected.json',
+        description: 'established players, retirement at 7-7 scales the weight',
+        player: { mu: 1600, phi: 80, sigma: 0.06 },
+        opponent: { mu: 1500, phi: 120, sigma: 0.06 },
+        playerGames: 7,
+        opponentGames: 7,
+        status: 'retired',
+        eventCategory: 'standard_match',
+        isPublicEvent: false,
+    },
+    {
+        fixture: 'scenario4_expected.json',
+        description: 'very uncertain players, 12-1 blowout',
+        player: { mu: 1550, phi: 400, sigma: 0.06 },
+        opponent: { mu: 1450, phi: 380, sigma: 0.06 },
+        playerGames: 12,
+        opponentGames: 1,
+        status: 'completed',
+        eventCategory: 'standard_match',
+        isPublicEvent: false,
+    },
+];
+
+async function loadFixture(name: string): Promise<{ player_new: PlayerRating, opponent_new: PlayerRating }> {
+    return JSON.parse(await Deno.readTextFile(new URL(`../${name}`, import.meta.url)));
+}
+
+function assertRatingClose(actual: PlayerRating, expected: PlayerRating, label: string): void {
+    assertAlmostEquals(actual.mu, expected.mu, TOLERANCE, `${label} mu`);
+    assertAlmostEquals(actual.phi, expected.phi, TOLERANCE, `${label} phi`);
+    assertAlmostEquals(actual.sigma, expected.sigma, TOLERANCE, `${label} sigma`);
+}
+
+for (const scenario of SCENARIOS) {
+    Deno.test(`${scenario.fixture}: ${scenario.description}`, async () => {
+        const expected = await loadFixture(scenario.fixture);
+        const result = calculateGlickoTRUpdate(
+            scenario.player,
+            scenario.opponent,
+            scenario.playerGames,
+            scenario.opponentGames,
+            scenario.status,
+            scenario.eventCategory,
+            scenario.isPublicEvent
+        );
+        assertRatingClose(result.player_new, expected.player_new, 'player_new');
+        assertRatingClose(result.opponent_new, expected.opponent_new, 'opponent_new');
+    });
+}
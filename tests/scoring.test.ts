@@ -0,0 +1,84 @@
+/**
+ * Tests for the score models: each maps the same sets to side 1's actual
+ * score, and a model without the data it needs falls back to game share.
+ */
+
+import { assert, assertAlmostEquals, assertEquals, assertThrows } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import { DEFAULT_CONFIG, GlickoTRConfig, ScoreModel, calculateGlickoTRUpdate } from '../glicko.ts'
+import { parseRatingConfig } from '../config.ts'
+import { modelScore, totalsFromSets } from '../scoring.ts'
+import { ConfigError } from '../errors.ts'
+
+// A 7-6 6-7 7-6 win: almost level on games, but a win on the match and on sets
+const CLOSE_SETS = [{ p1: 7, p2: 6 }, { p1: 6, p2: 7 }, { p1: 7, p2: 6 }];
+
+function withModel(model: ScoreModel, winWeight = 0.5): GlickoTRConfig {
+    return parseRatingConfig({ scoreModel: { model, winWeight } }, model, 'test');
+}
+
+Deno.test('score models: the same close win scores differently under each model', () => {
+    const totals = totalsFromSets(CLOSE_SETS, true);
+    assertEquals(totals.games, [20, 19]);
+    assertEquals(totals.sets, [2, 1]);
+
+    assertAlmostEquals(modelScore(totals, 'standard_match', withModel('game_share')).score, 20 / 39, 1e-12);
+    assertEquals(modelScore(totals, 'standard_match', withModel('win_loss')).score, 1);
+    assertAlmostEquals(modelScore(totals, 'standard_match', withModel('set_share')).score, 2 / 3, 1e-12);
+    assertAlmostEquals(modelScore(totals, 'standard_match', withModel('blend', 0.25)).score, 0.25 + 0.75 * 20 / 39, 1e-12);
+    // The loser's perspective is the mirror image
+    assertEquals(modelScore(totalsFromSets(CLOSE_SETS, false), 'standard_match', withModel('win_loss')).score, 0);
+});
+
+Deno.test('score models: a model without its data falls back to game share and says so', () => {
+    // Points won needs point totals, unless the category is already scored in points
+    const noPoints = modelScore(totalsFromSets(CLOSE_SETS, true), 'standard_match', withModel('points_won'));
+    assertEquals(noPoints.model, 'game_share');
+    const withPoints = modelScore(totalsFromSets(CLOSE_SETS, true, { p1: 120, p2: 80 }), 'standard_match', withModel('points_won'));
+    assertEquals(withPoints, { score: 0.6, model: 'points_won' });
+    const tiebreak = modelScore(totalsFromSets([{ p1: 10, p2: 8 }], true), 'match_tiebreak', withModel('points_won'));
+    assertEquals(tiebreak, { score: 10 / 18, model: 'points_won' });
+
+    // A match retired level in the first set has no decided set
+    const retired = modelScore(totalsFromSets([{ p1: 2, p2: 2 }], true), 'standard_match', withModel('set_share'));
+    assertEquals(retired, { score: 0.5, model: 'game_share' });
+});
+
+Deno.test('score models: a match tiebreak decider counts as one game to its winner', () => {
+    // 6-4 4-6 [10-7]: 11-10 on games, not 20-17
+    const sets = [{ p1: 6, p2: 4 }, { p1: 4, p2: 6 }, { p1: 10, p2: 7 }];
+    const totals = totalsFromSets(sets, true);
+    assertEquals(totals.games, [11, 10]);
+    assertEquals(totals.sets, [2, 1]);
+    assertEquals(totalsFromSets([{ p1: 4, p2: 6 }, { p1: 6, p2: 3 }, { p1: 8, p2: 10 }], false).games, [10, 10]);
+
+    // A point-scored category keeps its points as they are
+    assertEquals(totalsFromSets([{ p1: 10, p2: 8 }], true, null, 'points').games, [10, 8]);
+});
+
+Deno.test('score models: the actual score replaces the game share in the update, not the weight', () => {
+    const player = { mu: 1500, phi: 200, sigma: 0.06 };
+    const opponent = { mu: 1500, phi: 200, sigma: 0.06 };
+    const byGames = calculateGlickoTRUpdate(player, opponent, 20, 19, 'completed', 'standard_match', false);
+    const byWin = calculateGlickoTRUpdate(player, opponent, 20, 19, 'completed', 'standard_match', false, { actualScore: 1 });
+
+    assertEquals(byWin.player_outcome.actualScore, 1);
+    assertEquals(byWin.opponent_outcome.actualScore, 0);
+    assertEquals(byWin.match_weight, byGames.match_weight);
+    // Winning the match counts for far more than a one-game edge
+    assert(byWin.player_new.mu - player.mu > 10 * (byGames.player_new.mu - player.mu));
+});
+
+Deno.test('config: reserved object keys cannot name a category or an outcome', () => {
+    const category = { baseWeight: 1, scoreUnit: 'games', retirement: null };
+    for (const key of ['__proto__', 'constructor', 'prototype']) {
+        assertThrows(() => parseRatingConfig(JSON.parse(`{ "categories": { "${key}": ${JSON.stringify(category)} } }`), 'v', 'test'), ConfigError, 'reserved');
+        assertThrows(() => parseRatingConfig(JSON.parse(`{ "outcomePolicies": { "${key}": { "rating": "full" } } }`), 'v', 'test'), ConfigError, 'reserved');
+    }
+});
+
+Deno.test('score models: the config rejects an unknown model or a win weight outside [0, 1]', () => {
+    assertEquals(DEFAULT_CONFIG.scoreModel.model, 'game_share');
+    assertEquals(parseRatingConfig({ scoreModel: { model: 'blend' } }, 'v', 'test').scoreModel, { model: 'blend', winWeight: 0.5 });
+    assertThrows(() => parseRatingConfig({ scoreModel: { model: 'elo' } }, 'v', 'test'), ConfigError, 'scoreModel.model');
+    assertThrows(() => parseRatingConfig({ scoreModel: { winWeight: 1.5 } }, 'v', 'test'), ConfigError, 'winWeight');
+});
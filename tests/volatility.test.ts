@@ -0,0 +1,100 @@
+/**
+ * Volatility solver tests. Each case is compared with a reference root found
+ * by bisection down to adjacent floating point numbers. The listed cases all
+ * made the earlier solver stall or give up and keep the old sigma.
+ */
+
+import { assert, assertAlmostEquals, assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import { calculateGlickoTRUpdate, determineSigma } from '../glicko.ts'
+
+// The solver stops within 1e-6 of the root in log(sigma^2), about 5e-7 relative in sigma
+const RELATIVE_TOLERANCE = 1e-6;
+
+interface SigmaCase {
+    description: string;
+    phi: number;
+    sigma: number;
+    difference: number;
+    variance: number;
+    tau: number;
+}
+
+const CASES: SigmaCase[] = [
+    { description: 'stalled: uncertain player, large variance', phi: 1.9721460688134151, sigma: 0.05205153451492221, difference: -0.9625492449501056, variance: 55.084674449716395, tau: 0.5 },
+    { description: 'stalled: certain player, large variance', phi: 0.16425495344610413, sigma: 0.029632490863681298, difference: 0.3419068319181975, variance: 56.96479188275038, tau: 0.5 },
+    { description: 'stalled: low volatility, high tau', phi: 0.899642673436962, sigma: 0.002531588565571996, difference: 0.0006518035789830227, variance: 3.378903796605312, tau: 1.2 },
+    { description: 'same sign: kept the old sigma', phi: 1.1203610646728062, sigma: 0.08096953848467166, difference: 0.40013377778244563, variance: 10.020170382242808, tau: 0.5 },
+    { description: 'same sign: kept the old sigma, high volatility', phi: 1.051666151687192, sigma: 0.1148957484167961, difference: 0.274944678205014, variance: 8.70620859945771, tau: 0.5 },
+    { description: 'same sign: tiny phi, huge surprise', phi: 0.034181657186765496, sigma: 0.0012365035208205843, difference: -63.43768956354102, variance: 0.10873246504159166, tau: 1.2 },
+    { description: 'same sign: tiny phi, low tau', phi: 0.04433910033311612, sigma: 0.22526663106528413, difference: 10.82384620897432, variance: 0.3243596859819087, tau: 0.2 },
+    { description: 'stalled: variance at its clamp', phi: 9.101745546189942, sigma: 0.1537803132200138, difference: -3.1818394957326195, variance: 13928.827028732225, tau: 1.2 },
+];
+
+/** Root of the paper's f(x) by bisection until the bracket cannot shrink further. */
+function referenceSigma({ phi, sigma, difference, variance, tau }: SigmaCase): number {
+    const a = Math.log(sigma ** 2);
+    const f = (x: number) => {
+        const tmp = phi ** 2 + variance + Math.exp(x);
+        return Math.exp(x) * (difference ** 2 - phi ** 2 - variance - Math.exp(x)) / (2 * tmp ** 2) - (x - a) / tau ** 2;
+    };
+    // f is positive far below the root and negative far above it
+    let low = a - 1;
+    while (f(low) <= 0) low -= 1;
+    let high = a + 1;
+    while (f(high) >= 0) high += 1;
+    for (;;) {
+        const middle = (low + high) / 2;
+        if (middle <= low || middle >= high) return Math.exp(middle / 2);
+        if (f(middle) > 0) low = middle;
+        else high = middle;
+    }
+}
+
+for (const sigmaCase of CASES) {
+    Deno.test(`determineSigma: ${sigmaCase.description}`, () => {
+        const { phi, sigma, difference, variance, tau } = sigmaCase;
+        const result = determineSigma(phi, sigma, difference, variance, tau);
+        const reference = referenceSigma(sigmaCase);
+
+        assertEquals(result.status.converged, true);
+        assertEquals(result.status.fallbackReason, null);
+        assert(result.status.iterations < 100, `${result.status.iterations} iterations`);
+        assert(
+            Math.abs(result.sigma - reference) / reference < RELATIVE_TOLERANCE,
+            `sigma ${result.sigma} differs from reference ${reference}`
+        );
+    });
+}
+
+Deno.test("determineSigma: reproduces the paper's worked example", () => {
+    // Glickman's Glicko-2 example, step 5: phi 1.1513, sigma 0.06, Delta -0.4834, v 1.7785, tau 0.5
+    const result = determineSigma(1.1513, 0.06, -0.4834, 1.7785, 0.5);
+    assertEquals(result.status.converged, true);
+    // The paper prints sigma' = 0.05999 to five decimals
+    assertAlmostEquals(result.sigma, 0.05999, 1e-5);
+});
+
+Deno.test('determineSigma: unusable inputs keep the old sigma and say why', () => {
+    for (const [phi, sigma, difference, variance, tau] of [
+        [NaN, 0.06, 0.1, 1, 0.5],
+        [1, 0, 0.1, 1, 0.5],
+        [1, 0.06, Infinity, 1, 0.5],
+        [1, 0.06, 0.1, 1, 0],
+    ]) {
+        const result = determineSigma(phi, sigma, difference, variance, tau);
+        assertEquals(result.sigma, sigma);
+        assertEquals(result.status, { converged: false, iterations: 0, fallbackReason: 'invalid_input' });
+    }
+});
+
+Deno.test('determineSigma: status is reported in the match breakdown', () => {
+    const player = { mu: 1500, phi: 200, sigma: 0.06 };
+    const opponent = { mu: 1700, phi: 80, sigma: 0.05 };
+
+    const rated = calculateGlickoTRUpdate(player, opponent, 13, 10, 'completed', 'standard_match', false, { detailed: true });
+    assertEquals(rated.breakdown!.player.sigmaSolver?.converged, true);
+    assertEquals(rated.breakdown!.opponent.sigmaSolver?.fallbackReason, null);
+
+    const walkover = calculateGlickoTRUpdate(player, opponent, 0, 0, 'walkover', 'standard_match', false, { detailed: true });
+    assertEquals(walkover.breakdown!.player.sigmaSolver, null);
+});
@@ -0,0 +1,215 @@
+/**
+ * Score Validation
+ *
+ * Checks a match's score against tennis rules before it is rated: every set
+ * must be a reachable score for its event category, the `winner_id` must be
+ * consistent with the sets of a completed match, and a retirement must name a
+ * player from the losing side. Walkovers may have no sets, and retirements,
+ * defaults and walkovers may end in an unfinished set. All problems are
+ * collected so the caller can report them together instead of failing on the
+ * first one.
+ */
+
+import { GlickoTRConfig, getEventCategory } from './glicko.ts'
+import { MatchData, matchPlayerIds, matchOutcome } from './processing.ts'
+import { ApiError } from './errors.ts'
+
+export interface ScoreProblem {
+    field: string;   // e.g. 'score.sets[1]', 'score.winner_id'
+    message: string;
+}
+
+/** Thrown when a match's score breaks the rules; carries every problem found. */
+export class ScoreValidationError extends ApiError {
+    problems: ScoreProblem[];
+
+    constructor(matchId: string, problems: ScoreProblem[]) {
+        super('invalid_score', `Invalid score for match ${matchId}: ${problems.map((p) => `${p.field}: ${p.message}`).join('; ')}`, { matchId, problems });
+        this.name = 'ScoreValidationError';
+        this.problems = problems;
+    }
+}
+
+// A games set: first to `games` by two, with a tiebreak played at `tiebreakAt` all
+interface GamesSetFormat {
+    unit: 'games';
+    games: number;
+    tiebreakAt: number;
+    superTiebreakDecider: boolean; // A deciding set may be played as a 10-point match tiebreak
+}
+
+// A points set: a tiebreak won by two from any of `targets`
+interface PointsSetFormat {
+    unit: 'points';
+    targets: number[];
+}
+
+type SetFormat = GamesSetFormat | PointsSetFormat;
+
+const STANDARD_SET: GamesSetFormat = { unit: 'games', games: 6, tiebreakAt: 6, superTiebreakDecider: true };
+
+// Set rules for the built-in categories; custom categories fall back by score unit
+const SET_FORMATS: Record<string, SetFormat> = {
+    standard_match: STANDARD_SET,
+    pro_set: { unit: 'games', games: 8, tiebreakAt: 8, superTiebreakDecider: false },
+    fast4: { unit: 'games', games: 4, tiebreakAt: 3, superTiebreakDecider: false },
+    tiebreak_event: { unit: 'points', targets: [7, 10] },
+    match_tiebreak: { unit: 'points', targets: [10] },
+};
+
+const SET_TIEBREAK_TARGET = 7;
+const SUPER_TIEBREAK_TARGET = 10;
+
+function setFormatFor(eventCategory: string, config: GlickoTRConfig): SetFormat {
+    const format = SET_FORMATS[eventCategory];
+    if (format) return format;
+    return getEventCategory(eventCategory, config)?.scoreUnit === 'points'
+        ? { unit: 'points', targets: [SUPER_TIEBREAK_TARGET] }
+        : STANDARD_SET;
+}
+
+/** A finished tiebreak to `target`: reached the target with a two-point lead, ending as soon as it did. */
+function isCompleteTiebreak(high: number, low: number, target: number): boolean {
+    if (high < target) return false;
+    return high === target ? high - low >= 2 : high - low === 2;
+}
+
+/** A finished games set: `games`-x by two, `games+1`-(`games`-1), or won through the tiebreak. */
+function isCompleteGamesSet(high: number, low: number, format: GamesSetFormat): boolean {
+    if (high === format.games && format.games - low >= 2) return true;
+    if (format.tiebreakAt === format.games) {
+        return high === format.games + 1 && (low === format.games - 1 || low === format.games);
+    }
+    // Tiebreak before the set target (e.g. Fast4 at 3-3 decides the set 4-3)
+    return high === format.tiebreakAt + 1 && low === format.tiebreakAt;
+}
+
+/** A score that could still be in progress when the match ended early. */
+function isUnfinishedSet(high: number, low: number, format: SetFormat): boolean {
+    if (format.unit === 'points') {
+        return format.targets.some((target) => high < target || (high - low < 2 && low >= target - 1));
+    }
+    const limit = Math.max(format.games, format.tiebreakAt);
+    return high <= limit && (high < format.games || high - low <= 1);
+}
+
+/**
+ * Whether a set was won as a tiebreak set, i.e. it went to the tiebreak.
+ * Only then may a tiebreak score be attached to it.
+ */
+function wentToTiebreak(high: number, low: number, format: GamesSetFormat): boolean {
+    return high === format.tiebreakAt + 1 && low === format.tiebreakAt;
+}
+
+/**
+ * Validates the match's score and returns every problem found. An empty list
+ * means the score is consistent and can be rated.
+ */
+export function validateMatchScore(match: MatchData, config: GlickoTRConfig): ScoreProblem[] {
+    const problems: ScoreProblem[] = [];
+    const score = match.score;
+    if (score?.outcome != null && !Object.hasOwn(config.outcomePolicies, score.outcome)) {
+        const known = Object.keys(config.outcomePolicies).join(', ');
+        return [{ field: 'score.outcome', message: `unknown outcome '${score.outcome}' (known: ${known})` }];
+    }
+    const outcome = score ? matchOutcome(match) : 'completed';
+    // A walkover may have no sets at all, since nothing was played
+    if (!score || !Array.isArray(score.sets) || (score.sets.length === 0 && outcome !== 'walkover')) {
+        return [{ field: 'score.sets', message: 'must be a non-empty array of set scores' }];
+    }
+
+    const format = setFormatFor(match.event_category, config);
+    const playerIds = matchPlayerIds(match);
+    const side1Ids = playerIds.slice(0, playerIds.length / 2);
+    const retired = !!score.retired_player_id;
+    // Retirements, defaults and walkovers end before the score is finished
+    const unfinished = outcome !== 'completed';
+
+    // --- Winner and retirement semantics ---
+    let winnerSide: 1 | 2 | null = null;
+    if (!playerIds.includes(score.winner_id)) {
+        problems.push({ field: 'score.winner_id', message: `${score.winner_id} is not a player in this match` });
+    } else {
+        winnerSide = side1Ids.includes(score.winner_id) ? 1 : 2;
+    }
+    if (outcome === 'retired' && !retired) {
+        problems.push({ field: 'score.retired_player_id', message: 'is required for a retired match' });
+    }
+    if (outcome === 'completed' && retired) {
+        problems.push({ field: 'score.outcome', message: 'a completed match cannot have a retired player' });
+    }
+    if (retired) {
+        if (!playerIds.includes(score.retired_player_id!)) {
+            problems.push({ field: 'score.retired_player_id', message: `${score.retired_player_id} is not a player in this match` });
+        } else if (winnerSide !== null && (side1Ids.includes(score.retired_player_id!) ? 1 : 2) === winnerSide) {
+            problems.push({ field: 'score.retired_player_id', message: 'the retired player cannot be on the winning side' });
+        }
+    }
+
+    // --- Set scores ---
+    const setsWon = { 1: 0, 2: 0 };
+    let lastSetWinner: 1 | 2 | null = null;
+    score.sets.forEach((set, index) => {
+        const field = `score.sets[${index}]`;
+        if (![set?.p1, set?.p2].every((v) => Number.isInteger(v) && v >= 0)) {
+            problems.push({ field, message: 'p1 and p2 must be non-negative whole numbers' });
+            return;
+        }
+        const high = Math.max(set.p1, set.p2);
+        const low = Math.min(set.p1, set.p2);
+        const isLast = index === score.sets.length - 1;
+        const label = `${set.p1}-${set.p2}`;
+
+        let complete: boolean;
+        if (format.unit === 'points') {
+            complete = format.targets.some((target) => isCompleteTiebreak(high, low, target));
+        } else {
+            // A deciding set at one set all may be a 10-point match tiebreak
+            const isDecider = isLast && setsWon[1] === setsWon[2] && setsWon[1] > 0;
+            complete = isCompleteGamesSet(high, low, format)
+                || (format.superTiebreakDecider && isDecider && isCompleteTiebreak(high, low, SUPER_TIEBREAK_TARGET));
+
+            if (set.tiebreak) {
+                const tiebreakField = `${field}.tiebreak`;
+                const tbHigh = Math.max(set.tiebreak.p1, set.tiebreak.p2);
+                const tbLow = Math.min(set.tiebreak.p1, set.tiebreak.p2);
+                if (!wentToTiebreak(high, low, format)) {
+                    problems.push({ field: tiebreakField, message: `set ${label} did not go to a tiebreak` });
+                } else if (!isCompleteTiebreak(tbHigh, tbLow, SET_TIEBREAK_TARGET)) {
+                    problems.push({ field: tiebreakField, message: `${set.tiebreak.p1}-${set.tiebreak.p2} is not a finished tiebreak to ${SET_TIEBREAK_TARGET}` });
+                } else if ((set.tiebreak.p1 > set.tiebreak.p2) !== (set.p1 > set.p2)) {
+                    problems.push({ field: tiebreakField, message: `tiebreak winner does not match the set winner of ${label}` });
+                }
+            }
+        }
+
+        if (complete) {
+            lastSetWinner = set.p1 > set.p2 ? 1 : 2;
+            setsWon[lastSetWinner]++;
+        } else if (!(unfinished && isLast && isUnfinishedSet(high, low, format))) {
+            // Only the final set of a match that did not finish may be left unfinished
+            problems.push({ field, message: `${label} is not a valid ${format.unit === 'points' ? 'tiebreak' : 'set'} score for ${match.event_category}` });
+        }
+    });
+
+    // --- Winner consistency for completed matches ---
+    if (!unfinished && winnerSide !== null && problems.length === 0) {
+        const loserSide = winnerSide === 1 ? 2 : 1;
+        if (setsWon[winnerSide] <= setsWon[loserSide] || lastSetWinner !== winnerSide) {
+            problems.push({
+                field: 'score.winner_id',
+                message: `winner does not match the sets (${setsWon[1]}-${setsWon[2]} in sets for player 1's side)`,
+            });
+        }
+    }
+
+    return problems;
+}
+
+/** Throws a `ScoreValidationError` listing every problem if the match's score is invalid. */
+export function assertValidScore(match: MatchData, config: GlickoTRConfig): void {
+    const problems = validateMatchScore(match, config);
+    if (problems.length > 0) {
+        throw new ScoreValidationError(match.id, problems);
+    }
+}
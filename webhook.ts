@@ -0,0 +1,65 @@
+/**
+ * Database Webhook Ingestion
+ *
+ * Lets a Supabase Database Webhook on `matches` call the function directly.
+ * The webhook sends `{ type, table, schema, record, old_record }`; only an
+ * UPDATE that moves a match into `confirmed` is rated; every other event is
+ * acknowledged and ignored. Requests must carry the shared secret from the
+ * `WEBHOOK_SECRET` environment variable in the `x-webhook-secret` header.
+ */
+
+import { timingSafeEqual } from './auth.ts'
+import { InvalidBodyError, UnauthorizedError } from './errors.ts'
+
+export const WEBHOOK_SECRET_HEADER = 'x-webhook-secret';
+
+export interface WebhookPayload {
+    type: 'INSERT' | 'UPDATE' | 'DELETE';
+    table: string;
+    schema?: string;
+    record: Record<string, unknown> | null;
+    old_record: Record<string, unknown> | null;
+}
+
+/** A body is treated as a webhook call when it has the webhook payload shape. */
+export function isWebhookPayload(body: unknown): body is WebhookPayload {
+    const payload = body as WebhookPayload;
+    return !!payload && typeof payload.type === 'string' && typeof payload.table === 'string' && 'record' in payload;
+}
+
+/**
+ * Throws unless the request carries the configured webhook secret.
+ * A missing `WEBHOOK_SECRET` rejects every webhook call rather than accepting them.
+ */
+export function verifyWebhookSecret(req: Request): void {
+    const secret = Deno.env.get('WEBHOOK_SECRET');
+    if (!secret) {
+        throw new UnauthorizedError('Unauthorized: WEBHOOK_SECRET is not configured, webhook calls are rejected.');
+    }
+    const provided = req.headers.get(WEBHOOK_SECRET_HEADER) ?? '';
+    if (!timingSafeEqual(provided, secret)) {
+        throw new UnauthorizedError(`Unauthorized: missing or invalid ${WEBHOOK_SECRET_HEADER} header.`);
+    }
+}
+
+/**
+ * Returns the match to rate for a webhook event, or the reason it is ignored.
+ * Only an UPDATE on `matches` whose status changes into `confirmed` is acted on.
+ */
+export function webhookMatchId(payload: WebhookPayload): { matchId: string | null, reason?: string } {
+    if (payload.table !== 'matches') {
+        return { matchId: null, reason: `Ignoring event on table '${payload.table}'.` };
+    }
+    if (payload.type !== 'UPDATE') {
+        return { matchId: null, reason: `Ignoring ${payload.type} event on matches.` };
+    }
+    const record = payload.record ?? {};
+    const oldRecord = payload.old_record ?? {};
+    if (record.status !== 'confirmed' || oldRecord.status === 'confirmed') {
+        return { matchId: null, reason: `Ignoring status change '${oldRecord.status}' -> '${record.status}', not a transition into 'confirmed'.` };
+    }
+    if (typeof record.id !== 'string' || !record.id) {
+        throw new InvalidBodyError('Missing record.id in webhook payload');
+    }
+    return { matchId: record.id };
+}